@@ -2,7 +2,6 @@ export const DEFAULT_STATIC_IMAGES = [
   'default-avatar.jpg',
 ];
 
-export const STATIC_RESOURCE_FIELDS = [
-  'avatarPath',
-  'image'
-];
+
+export const UPLOAD_ROUTE = '/upload';
+export const STATIC_ROUTE = '/static';
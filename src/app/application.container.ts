@@ -8,6 +8,8 @@ import LoggerService from '../common/logger/logger.service.js';
 import ConfigService from '../common/config/config.service.js';
 import DatabaseService from '../common/database-client/database.service.js';
 import ExceptionFilter from '../common/errors/exception-filter.js';
+import { StorageInterface } from '../common/storage/storage.interface.js';
+import { createStorage } from '../common/storage/storage.factory.js';
 import { Component } from '../types/component.types.js';
 
 const applicationContainer = new Container();
@@ -17,5 +19,9 @@ applicationContainer.bind<LoggerInterface>(Component.LoggerInterface).to(LoggerS
 applicationContainer.bind<ConfigInterface>(Component.ConfigInterface).to(ConfigService).inSingletonScope();
 applicationContainer.bind<DatabaseInterface>(Component.DatabaseInterface).to(DatabaseService).inSingletonScope();
 applicationContainer.bind<ExceptionFilterInterface>(Component.ExceptionFilterInterface).to(ExceptionFilter).inSingletonScope();
+applicationContainer.bind<StorageInterface>(Component.StorageInterface).toDynamicValue((context) => {
+  const config = context.container.get<ConfigInterface>(Component.ConfigInterface);
+  return createStorage(config);
+}).inSingletonScope();
 
 export {applicationContainer};
@@ -2,6 +2,7 @@ import 'reflect-metadata';
 import { inject, injectable } from 'inversify';
 import express, { Express } from 'express';
 import cors from 'cors';
+import asyncHandler from 'express-async-handler';
 import { LoggerInterface } from '../common/logger/logger.interface.js';
 import { ConfigInterface } from '../common/config/config.interface.js';
 import { Component } from '../types/component.types.js';
@@ -10,7 +11,10 @@ import { DatabaseInterface } from '../common/database-client/database.interface.
 import { ControllerInterface } from '../common/controller/controller.interface.js';
 import { ExceptionFilterInterface } from '../common/errors/exception-filter.interface.js';
 import { AuthenticateMiddleware } from '../common/middlewares/authenticate.middleware.js';
-import { getFullServerPath } from '../utils/common.js';
+import { getPublicUrl } from '../utils/common.js';
+import { SessionServiceInterface } from '../modules/session/session-service.interface.js';
+import { StorageDriver } from '../types/storage-driver.enum.js';
+import { STATIC_ROUTE, UPLOAD_ROUTE } from './application.constant.js';
 
 @injectable()
 export default class Application {
@@ -24,6 +28,8 @@ export default class Application {
     @inject(Component.UserController) private userController: ControllerInterface,
     @inject(Component.CommentController) private commentController: ControllerInterface,
     @inject(Component.OfferController) private offerController: ControllerInterface,
+    @inject(Component.BookingController) private bookingController: ControllerInterface,
+    @inject(Component.SessionServiceInterface) private sessionService: SessionServiceInterface,
   ) {
     this.expressApp = express();
   }
@@ -32,21 +38,25 @@ export default class Application {
     this.expressApp.use('/users', this.userController.router);
     this.expressApp.use('/comments', this.commentController.router);
     this.expressApp.use('/offers', this.offerController.router);
+    this.expressApp.use('/bookings', this.bookingController.router);
   }
 
   public initMiddleware() {
+    this.expressApp.set('trust proxy', this.config.get('TRUST_PROXY'));
     this.expressApp.use(express.json());
+    if (this.config.get('STORAGE_DRIVER') === StorageDriver.Local) {
+      this.expressApp.use(
+        UPLOAD_ROUTE,
+        express.static(this.config.get('UPLOAD_DIRECTORY'))
+      );
+    }
     this.expressApp.use(
-      '/upload',
-      express.static(this.config.get('UPLOAD_DIRECTORY'))
-    );
-    this.expressApp.use(
-      '/static',
+      STATIC_ROUTE,
       express.static(this.config.get('STATIC_DIRECTORY_PATH'))
     );
 
-    const authenticateMiddleware = new AuthenticateMiddleware(this.config.get('JWT_SECRET'));
-    this.expressApp.use(authenticateMiddleware.execute.bind(authenticateMiddleware));
+    const authenticateMiddleware = new AuthenticateMiddleware(this.config.get('JWT_SECRET'), this.sessionService);
+    this.expressApp.use(asyncHandler(authenticateMiddleware.execute.bind(authenticateMiddleware)));
     this.expressApp.use(cors());
   }
 
@@ -72,6 +82,6 @@ export default class Application {
     this.initRoutes();
     this.initExceptionFilters();
     this.expressApp.listen(this.config.get('PORT'));
-    this.logger.info(`Server started on ${getFullServerPath(this.config.get('HOST'), this.config.get('PORT'))}`);
+    this.logger.info(`Server started on ${getPublicUrl(this.config.get('PUBLIC_URL'), this.config.get('HOST'), this.config.get('PORT'))}`);
   }
 }
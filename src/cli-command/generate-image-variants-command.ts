@@ -0,0 +1,94 @@
+import { CliCommandInterface } from './cli-command.interface.js';
+import { getErrorMessage, isAbsoluteUrl } from '../utils/common.js';
+import DatabaseService from '../common/database-client/database.service.js';
+import ConsoleLoggerService from '../common/logger/console-logger.service.js';
+import { getURI } from '../utils/db.js';
+import { detectImageType } from '../utils/upload.js';
+import { getImageOutputType, getImageVariantName, processImage } from '../utils/image.js';
+import { OfferServiceInterface } from '../modules/offer/offer-service.interface.js';
+import { UserServiceInterface } from '../modules/user/user-service.interface.js';
+import OfferService from '../modules/offer/offer.service.js';
+import UserService from '../modules/user/user.service.js';
+import { OfferModel } from '../modules/offer/offer.entity.js';
+import { UserModel } from '../modules/user/user.entity.js';
+import { LoggerInterface } from '../common/logger/logger.interface.js';
+import { DatabaseInterface } from '../common/database-client/database.interface.js';
+import ConfigService from '../common/config/config.service.js';
+import { StorageInterface } from '../common/storage/storage.interface.js';
+import { createStorage } from '../common/storage/storage.factory.js';
+import { ImageVariant } from '../types/image-variant.enum.js';
+import { DEFAULT_STATIC_IMAGES } from '../app/application.constant.js';
+
+const DEFAULT_DB_PORT = 27017;
+
+export default class GenerateImageVariantsCommand implements CliCommandInterface {
+  public readonly name = '--generate-image-variants';
+  private offerService!: OfferServiceInterface;
+  private userService!: UserServiceInterface;
+  private databaseService!: DatabaseInterface;
+  private storage!: StorageInterface;
+  private logger: LoggerInterface;
+
+  constructor() {
+    this.logger = new ConsoleLoggerService();
+    this.offerService = new OfferService(this.logger, OfferModel);
+    this.userService = new UserService(this.logger, UserModel);
+    this.databaseService = new DatabaseService(this.logger);
+  }
+
+  private initStorage(): void {
+    const config = new ConfigService(this.logger);
+    this.storage = createStorage(config);
+  }
+
+  private async generateVariants(filename: string): Promise<boolean> {
+    const content = await this.storage.read(filename);
+    const signature = content ? detectImageType(content) : undefined;
+
+    if (!content || !signature) {
+      return false;
+    }
+
+    const {mimetype} = getImageOutputType(signature.mimetype);
+    const images = await processImage(content, mimetype);
+
+    // The stored original is kept as is, only the missing smaller files are written.
+    for (const {variant, buffer} of images) {
+      if (variant !== ImageVariant.original) {
+        await this.storage.save(getImageVariantName(filename, variant), buffer, mimetype);
+      }
+    }
+
+    return true;
+  }
+
+  public async execute(login: string, password: string, host: string, dbname: string): Promise<void> {
+    const uri = getURI(login, password, host, DEFAULT_DB_PORT, dbname);
+
+    try {
+      this.initStorage();
+      await this.databaseService.connect(uri);
+      const filenames = [...await this.offerService.findImageNames(), ...await this.userService.findAvatarPaths()]
+        .filter((filename) => filename && !isAbsoluteUrl(filename) && !DEFAULT_STATIC_IMAGES.includes(filename));
+      let count = 0;
+
+      for (const filename of new Set(filenames)) {
+        try {
+          if (await this.generateVariants(filename)) {
+            count++;
+          } else {
+            console.log(`Skipped ${filename}: file is missing or is not a supported image.`);
+          }
+        } catch (err) {
+          console.log(`Can't generate variants for ${filename}: ${getErrorMessage(err)}`);
+        }
+      }
+
+      console.log(`Image variants generated for ${count} files.`);
+    } catch (err) {
+      console.log(`Can't generate image variants: ${getErrorMessage(err)}`);
+    } finally {
+      await this.databaseService.disconnect();
+    }
+  }
+}
@@ -14,6 +14,12 @@ export default class HelpCommand implements CliCommandInterface {
             ${chalk.blue('--help')}:                       # печатает этот текст
             ${chalk.blue('--import <path>')}:              # импортирует данные из TSV
             ${chalk.blue('--generate <n> <path> <url>')}:  # генерирует произвольное количество тестовых данных
+            ${chalk.blue('--set-role <email> <role> <login> <password> <host> <dbname>')}:  # назначает роль пользователю
+            ${chalk.blue('--recalculate-ratings <login> <password> <host> <dbname>')}:  # пересчитывает рейтинги объявлений по комментариям
+            ${chalk.blue('--purge-offers <login> <password> <host> <dbname> [days]')}:  # окончательно удаляет объявления, удалённые раньше срока хранения
+            ${chalk.blue('--migrate-coordinates <login> <password> <host> <dbname>')}:  # переводит координаты объявлений в формат GeoJSON
+            ${chalk.blue('--migrate-languages <login> <password> <host> <dbname>')}:  # определяет язык полнотекстового поиска для старых объявлений
+            ${chalk.blue('--generate-image-variants <login> <password> <host> <dbname>')}:  # создаёт уменьшенные копии для ранее загруженных изображений
         `;
     console.log(helpText);
   }
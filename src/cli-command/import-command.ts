@@ -23,7 +23,6 @@ export default class ImportCommand implements CliCommandInterface {
   private offerService!: OfferServiceInterface;
   private databaseService!: DatabaseInterface;
   private logger: LoggerInterface;
-  private salt!: string;
 
   constructor() {
     this.onLine = this.onLine.bind(this);
@@ -39,11 +38,11 @@ export default class ImportCommand implements CliCommandInterface {
     const user = await this.userService.findOrCreate({
       ...offer.user,
       password: DEFAULT_USER_PASSWORD
-    }, this.salt);
+    });
 
     await this.offerService.create({
       ...offer,
-      user: user.id,
+      userId: user.id,
     });
   }
 
@@ -58,9 +57,8 @@ export default class ImportCommand implements CliCommandInterface {
     this.databaseService.disconnect();
   }
 
-  public async execute(filename: string, login: string, password: string, host: string, dbname: string, salt: string): Promise<void> {
+  public async execute(filename: string, login: string, password: string, host: string, dbname: string): Promise<void> {
     const uri = getURI(login, password, host, DEFAULT_DB_PORT, dbname);
-    this.salt = salt;
 
     await this.databaseService.connect(uri);
 
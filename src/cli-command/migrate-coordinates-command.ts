@@ -0,0 +1,43 @@
+import { CliCommandInterface } from './cli-command.interface.js';
+import { getErrorMessage } from '../utils/common.js';
+import DatabaseService from '../common/database-client/database.service.js';
+import ConsoleLoggerService from '../common/logger/console-logger.service.js';
+import { getURI } from '../utils/db.js';
+import { OfferServiceInterface } from '../modules/offer/offer-service.interface.js';
+import OfferService from '../modules/offer/offer.service.js';
+import { OfferModel } from '../modules/offer/offer.entity.js';
+import { LoggerInterface } from '../common/logger/logger.interface.js';
+import { DatabaseInterface } from '../common/database-client/database.interface.js';
+
+const DEFAULT_DB_PORT = 27017;
+
+export default class MigrateCoordinatesCommand implements CliCommandInterface {
+  public readonly name = '--migrate-coordinates';
+  private offerService!: OfferServiceInterface;
+  private databaseService!: DatabaseInterface;
+  private logger: LoggerInterface;
+
+  constructor() {
+    this.logger = new ConsoleLoggerService();
+    this.offerService = new OfferService(this.logger, OfferModel);
+    this.databaseService = new DatabaseService(this.logger);
+  }
+
+  public async execute(login: string, password: string, host: string, dbname: string): Promise<void> {
+    const uri = getURI(login, password, host, DEFAULT_DB_PORT, dbname);
+
+    try {
+      await this.databaseService.connect(uri);
+      const {migratedCount, failedIds} = await this.offerService.migrateCoordinates();
+      console.log(`${migratedCount} offers migrated to GeoJSON coordinates.`);
+
+      if (failedIds.length > 0) {
+        console.log(`${failedIds.length} offers have unreadable coordinates, fix them and run the migration again: ${failedIds.join(', ')}`);
+      }
+    } catch (err) {
+      console.log(`Can't migrate coordinates: ${getErrorMessage(err)}`);
+    } finally {
+      await this.databaseService.disconnect();
+    }
+  }
+}
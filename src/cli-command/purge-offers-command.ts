@@ -0,0 +1,119 @@
+import dayjs from 'dayjs';
+import { CliCommandInterface } from './cli-command.interface.js';
+import { getErrorMessage } from '../utils/common.js';
+import DatabaseService from '../common/database-client/database.service.js';
+import ConsoleLoggerService from '../common/logger/console-logger.service.js';
+import { getURI } from '../utils/db.js';
+import { removeUploadedImage } from '../utils/file.js';
+import { OfferServiceInterface } from '../modules/offer/offer-service.interface.js';
+import { CommentServiceInterface } from '../modules/comment/comment-service.interface.js';
+import { UserServiceInterface } from '../modules/user/user-service.interface.js';
+import { BookingServiceInterface } from '../modules/booking/booking-service.interface.js';
+import OfferService from '../modules/offer/offer.service.js';
+import CommentService from '../modules/comment/comment.service.js';
+import UserService from '../modules/user/user.service.js';
+import BookingService from '../modules/booking/booking.service.js';
+import { OfferModel } from '../modules/offer/offer.entity.js';
+import { CommentModel } from '../modules/comment/comment.entity.js';
+import { UserModel } from '../modules/user/user.entity.js';
+import { BookingModel } from '../modules/booking/booking.entity.js';
+import { LoggerInterface } from '../common/logger/logger.interface.js';
+import { DatabaseInterface } from '../common/database-client/database.interface.js';
+import ConfigService from '../common/config/config.service.js';
+import { ConfigInterface } from '../common/config/config.interface.js';
+import { StorageInterface } from '../common/storage/storage.interface.js';
+import { createStorage } from '../common/storage/storage.factory.js';
+
+const DEFAULT_DB_PORT = 27017;
+
+export default class PurgeOffersCommand implements CliCommandInterface {
+  public readonly name = '--purge-offers';
+  private offerService!: OfferServiceInterface;
+  private commentService!: CommentServiceInterface;
+  private userService!: UserServiceInterface;
+  private bookingService!: BookingServiceInterface;
+  private databaseService!: DatabaseInterface;
+  private storage!: StorageInterface;
+  private logger: LoggerInterface;
+
+  constructor() {
+    this.logger = new ConsoleLoggerService();
+    this.offerService = new OfferService(this.logger, OfferModel);
+    this.userService = new UserService(this.logger, UserModel);
+    this.bookingService = new BookingService(BookingModel);
+    this.databaseService = new DatabaseService(this.logger);
+  }
+
+  private init(): ConfigInterface {
+    const config = new ConfigService(this.logger);
+    this.commentService = new CommentService(config, CommentModel);
+    this.storage = createStorage(config);
+
+    return config;
+  }
+
+  private async purgeOffer(offerId: string, deletedBefore: Date): Promise<boolean> {
+    const offer = await this.databaseService.transaction(async (session) => {
+      // The offer goes first: when it has been restored meanwhile, its related data is left alone.
+      const deletedOffer = await this.offerService.deleteById(offerId, deletedBefore, session);
+
+      if (!deletedOffer) {
+        return null;
+      }
+
+      await this.commentService.deleteByOfferId(offerId, session);
+      await this.bookingService.deleteByOfferId(offerId, session);
+      await this.userService.removeOfferFromAllFavorites(offerId, session);
+      return deletedOffer;
+    });
+
+    if (!offer) {
+      return false;
+    }
+
+    await Promise.all(
+      [offer.previewImage, ...offer.offerImages]
+        .map((filename) => removeUploadedImage(this.storage, filename))
+    );
+
+    return true;
+  }
+
+  public async execute(login: string, password: string, host: string, dbname: string, retentionDays?: string): Promise<void> {
+    if (retentionDays !== undefined && !/^[1-9]\d*$/.test(retentionDays)) {
+      return console.log(`Invalid retention period ${retentionDays}. Days must be a positive integer.`);
+    }
+
+    const uri = getURI(login, password, host, DEFAULT_DB_PORT, dbname);
+
+    try {
+      const config = this.init();
+      // Without an explicit argument purge waits as long as the restore route allows.
+      const minDays = config.get('OFFER_RETENTION_DAYS');
+      const days = retentionDays ? Number.parseInt(retentionDays, 10) : minDays;
+
+      // A shorter period would purge offers the restore route still promises to bring back.
+      if (days < minDays) {
+        return console.log(`Invalid retention period ${days}. Days must be at least OFFER_RETENTION_DAYS (${minDays}).`);
+      }
+
+      const deletedBefore = dayjs().subtract(days, 'day').toDate();
+      await this.databaseService.connect(uri);
+      const offers = await this.offerService.findDeletedBefore(deletedBefore);
+
+      let purgedCount = 0;
+
+      for (const offer of offers) {
+        if (await this.purgeOffer(offer.id, deletedBefore)) {
+          purgedCount++;
+        }
+      }
+
+      console.log(`${purgedCount} deleted offers purged.`);
+    } catch (err) {
+      console.log(`Can't purge deleted offers: ${getErrorMessage(err)}`);
+    } finally {
+      await this.databaseService.disconnect();
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { CliCommandInterface } from './cli-command.interface.js';
+import { getErrorMessage } from '../utils/common.js';
+import DatabaseService from '../common/database-client/database.service.js';
+import ConsoleLoggerService from '../common/logger/console-logger.service.js';
+import { getURI } from '../utils/db.js';
+import { UserServiceInterface } from '../modules/user/user-service.interface.js';
+import UserService from '../modules/user/user.service.js';
+import { UserModel } from '../modules/user/user.entity.js';
+import { LoggerInterface } from '../common/logger/logger.interface.js';
+import { DatabaseInterface } from '../common/database-client/database.interface.js';
+import { UserRole } from '../types/user-role.enum.js';
+
+const DEFAULT_DB_PORT = 27017;
+
+export default class SetRoleCommand implements CliCommandInterface {
+  public readonly name = '--set-role';
+  private userService!: UserServiceInterface;
+  private databaseService!: DatabaseInterface;
+  private logger: LoggerInterface;
+
+  constructor() {
+    this.logger = new ConsoleLoggerService();
+    this.userService = new UserService(this.logger, UserModel);
+    this.databaseService = new DatabaseService(this.logger);
+  }
+
+  public async execute(email: string, role: string, login: string, password: string, host: string, dbname: string): Promise<void> {
+    if (!Object.values(UserRole).includes(role as UserRole)) {
+      return console.log(`Unknown role ${role}. Available roles: ${Object.values(UserRole).join(', ')}.`);
+    }
+
+    const uri = getURI(login, password, host, DEFAULT_DB_PORT, dbname);
+
+    try {
+      await this.databaseService.connect(uri);
+      const user = await this.userService.setRole(email, role as UserRole);
+      console.log(user ? `User ${email} now has role ${role}.` : `User ${email} not found.`);
+    } catch (err) {
+      console.log(`Can't change the role: ${getErrorMessage(err)}`);
+    } finally {
+      await this.databaseService.disconnect();
+    }
+  }
+}
@@ -5,10 +5,18 @@ import VersionCommand from './cli-command/version-command.js';
 import HelpCommand from './cli-command/help-command.js';
 import ImportCommand from './cli-command/import-command.js';
 import GenerateCommand from './cli-command/generate-command.js';
+import SetRoleCommand from './cli-command/set-role-command.js';
+import RecalculateRatingsCommand from './cli-command/recalculate-ratings-command.js';
+import PurgeOffersCommand from './cli-command/purge-offers-command.js';
+import MigrateCoordinatesCommand from './cli-command/migrate-coordinates-command.js';
+import MigrateLanguagesCommand from './cli-command/migrate-languages-command.js';
+import GenerateImageVariantsCommand from './cli-command/generate-image-variants-command.js';
 import CLIApplication from './app/cli-application.js';
 
 const myManager = new CLIApplication();
 myManager.registerCommands([
-  new HelpCommand, new VersionCommand, new ImportCommand, new GenerateCommand
+  new HelpCommand, new VersionCommand, new ImportCommand, new GenerateCommand, new SetRoleCommand,
+  new RecalculateRatingsCommand, new PurgeOffersCommand, new MigrateCoordinatesCommand,
+  new MigrateLanguagesCommand, new GenerateImageVariantsCommand
 ]);
 myManager.processCommand(process.argv);
@@ -1,5 +1,6 @@
 import convict from 'convict';
 import validator from 'convict-format-with-validator';
+import { StorageDriver } from '../../types/storage-driver.enum.js';
 
 convict.addFormats(validator);
 
@@ -12,9 +13,24 @@ export type ConfigSchema = {
   DB_PORT: number;
   DB_NAME: string;
   UPLOAD_DIRECTORY: string;
+  UPLOAD_MAX_FILE_SIZE: number;
+  UPLOAD_MAX_FILE_COUNT: number;
+  STORAGE_DRIVER: StorageDriver;
+  S3_ENDPOINT: string;
+  S3_REGION: string;
+  S3_BUCKET: string;
+  S3_ACCESS_KEY_ID: string;
+  S3_SECRET_ACCESS_KEY: string;
+  S3_PUBLIC_URL: string;
   JWT_SECRET: string;
+  JWT_EXPIRATION_TIME: string;
+  REFRESH_TOKEN_EXPIRATION_DAYS: number;
   STATIC_DIRECTORY_PATH: string;
   HOST: string;
+  PUBLIC_URL: string;
+  TRUST_PROXY: boolean;
+  COMMENT_PAGE_SIZE: number;
+  OFFER_RETENTION_DAYS: number;
 }
 
 export const configSchema = convict<ConfigSchema>({
@@ -25,7 +41,7 @@ export const configSchema = convict<ConfigSchema>({
     default: 4000
   },
   SALT: {
-    doc: 'Salt for password hash',
+    doc: 'Salt for legacy SHA-256 password hashes',
     format: String,
     env: 'SALT',
     default: null
@@ -66,12 +82,78 @@ export const configSchema = convict<ConfigSchema>({
     env: 'UPLOAD_DIRECTORY',
     default: null
   },
+  UPLOAD_MAX_FILE_SIZE: {
+    doc: 'Maximum size of an uploaded image in bytes',
+    format: 'nat',
+    env: 'UPLOAD_MAX_FILE_SIZE',
+    default: 5242880
+  },
+  UPLOAD_MAX_FILE_COUNT: {
+    doc: 'Maximum number of images uploaded in a single request',
+    format: 'nat',
+    env: 'UPLOAD_MAX_FILE_COUNT',
+    default: 6
+  },
+  STORAGE_DRIVER: {
+    doc: 'Where uploaded files are stored: local directory or S3-compatible bucket',
+    format: Object.values(StorageDriver),
+    env: 'STORAGE_DRIVER',
+    default: StorageDriver.Local
+  },
+  S3_ENDPOINT: {
+    doc: 'Endpoint of an S3-compatible server, empty for AWS S3',
+    format: String,
+    env: 'S3_ENDPOINT',
+    default: ''
+  },
+  S3_REGION: {
+    doc: 'S3 bucket region',
+    format: String,
+    env: 'S3_REGION',
+    default: 'us-east-1'
+  },
+  S3_BUCKET: {
+    doc: 'S3 bucket for uploaded files',
+    format: String,
+    env: 'S3_BUCKET',
+    default: ''
+  },
+  S3_ACCESS_KEY_ID: {
+    doc: 'S3 access key id',
+    format: String,
+    env: 'S3_ACCESS_KEY_ID',
+    default: ''
+  },
+  S3_SECRET_ACCESS_KEY: {
+    doc: 'S3 secret access key',
+    format: String,
+    env: 'S3_SECRET_ACCESS_KEY',
+    default: ''
+  },
+  S3_PUBLIC_URL: {
+    doc: 'Public base URL of uploaded files in the bucket, derived from the endpoint when empty',
+    format: String,
+    env: 'S3_PUBLIC_URL',
+    default: ''
+  },
   JWT_SECRET: {
     doc: 'Secret for sign JWT',
     format: String,
     env: 'JWT_SECRET',
     default: null
   },
+  JWT_EXPIRATION_TIME: {
+    doc: 'Lifetime of access tokens (e.g. 15m, 1h)',
+    format: String,
+    env: 'JWT_EXPIRATION_TIME',
+    default: '15m'
+  },
+  REFRESH_TOKEN_EXPIRATION_DAYS: {
+    doc: 'Lifetime of refresh tokens in days',
+    format: 'nat',
+    env: 'REFRESH_TOKEN_EXPIRATION_DAYS',
+    default: 30
+  },
   STATIC_DIRECTORY_PATH: {
     doc: 'Path to directory with static resources',
     format: String,
@@ -83,5 +165,29 @@ export const configSchema = convict<ConfigSchema>({
     format: String,
     env: 'HOST',
     default: 'localhost'
+  },
+  PUBLIC_URL: {
+    doc: 'Public base URL of the service used in generated links, http://HOST:PORT when empty',
+    format: String,
+    env: 'PUBLIC_URL',
+    default: ''
+  },
+  TRUST_PROXY: {
+    doc: 'Trust X-Forwarded-* headers set by a reverse proxy when building links',
+    format: Boolean,
+    env: 'TRUST_PROXY',
+    default: false
+  },
+  COMMENT_PAGE_SIZE: {
+    doc: 'Default number of comments returned per page',
+    format: 'nat',
+    env: 'COMMENT_PAGE_SIZE',
+    default: 50
+  },
+  OFFER_RETENTION_DAYS: {
+    doc: 'Number of days a deleted offer can be restored before it is purged',
+    format: 'nat',
+    env: 'OFFER_RETENTION_DAYS',
+    default: 30
   }
 });
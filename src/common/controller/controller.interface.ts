@@ -7,5 +7,5 @@ export interface ControllerInterface {
   send<T>(res: Response, statusCode: number, data: T): void;
   ok<T>(res: Response, data: T): void;
   created<T>(res: Response, data: T): void;
-  noContent<T>(res: Response, data: T): void;
+  noContent(res: Response): void;
 }
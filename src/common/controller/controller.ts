@@ -1,14 +1,13 @@
 import { injectable } from 'inversify';
-import { Response, Router } from 'express';
+import { Request, Response, Router } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import asyncHandler from 'express-async-handler';
 import { LoggerInterface } from '../logger/logger.interface.js';
 import { RouteInterface } from '../../types/route.interface.js';
 import { ControllerInterface } from './controller.interface.js';
 import { ConfigInterface } from '../config/config.interface.js';
-import { getFullServerPath, transformObject } from '../../utils/common.js';
-import { UnknownObject } from '../../types/unknown-object.type.js';
-import { STATIC_RESOURCE_FIELDS } from '../../app/application.constant.js';
+import { getForwardedUrl, getPublicUrl, transformObject } from '../../utils/common.js';
+import { StorageInterface } from '../storage/storage.interface.js';
 
 @injectable()
 export abstract class Controller implements ControllerInterface {
@@ -16,7 +15,8 @@ export abstract class Controller implements ControllerInterface {
 
   constructor(
     protected readonly logger: LoggerInterface,
-    protected readonly configService: ConfigInterface
+    protected readonly configService: ConfigInterface,
+    protected readonly storage: StorageInterface
   ) {
     this._router = Router();
   }
@@ -36,30 +36,40 @@ export abstract class Controller implements ControllerInterface {
     this.logger.info(`Route registered: ${route.method.toUpperCase()} ${route.path}`);
   }
 
-  protected addStaticPath(data: UnknownObject): void {
-    const fullServerPath = getFullServerPath(this.configService.get('HOST'), this.configService.get('PORT'));
-    transformObject(
-      STATIC_RESOURCE_FIELDS,
-      `${fullServerPath}/${this.configService.get('STATIC_DIRECTORY_PATH')}`,
-      `${fullServerPath}/${this.configService.get('UPLOAD_DIRECTORY')}`,
-      data
-    );
+  protected getPublicUrl(req: Request): string {
+    const publicUrl = this.configService.get('PUBLIC_URL');
+
+    if (!publicUrl && this.configService.get('TRUST_PROXY')) {
+      return getForwardedUrl(req);
+    }
+
+    return getPublicUrl(publicUrl, this.configService.get('HOST'), this.configService.get('PORT'));
+  }
+
+  protected addStaticPath(req: Request, data: unknown): void {
+    transformObject(this.getPublicUrl(req), this.storage, data);
   }
 
   public send<T>(res: Response, statusCode: number, data: T): void {
-    this.addStaticPath(data as UnknownObject);
+    this.addStaticPath(res.req, data);
     res
       .type('application/json')
       .status(statusCode)
       .json(data);
   }
 
-  public created<T>(res: Response, data: T): void {
+  public created<T>(res: Response, data: T, location?: string): void {
+    if (location) {
+      res.location(`${this.getPublicUrl(res.req)}${location}`);
+    }
+
     this.send(res, StatusCodes.CREATED, data);
   }
 
-  public noContent<T>(res: Response, data: T): void {
-    this.send(res, StatusCodes.NO_CONTENT, data);
+  public noContent(res: Response): void {
+    res
+      .status(StatusCodes.NO_CONTENT)
+      .end();
   }
 
   public ok<T>(res: Response, data: T): void {
@@ -1,4 +1,7 @@
+import { ClientSession } from 'mongoose';
+
 export interface DatabaseInterface {
   connect(uri: string): Promise<void>;
   disconnect(): Promise<void>;
+  transaction<T>(operation: (session?: ClientSession) => Promise<T>): Promise<T>;
 }
@@ -1,4 +1,4 @@
-import mongoose from 'mongoose';
+import mongoose, { ClientSession } from 'mongoose';
 import { inject, injectable } from 'inversify';
 import { Component } from '../../types/component.types.js';
 import { LoggerInterface } from '../logger/logger.interface.js';
@@ -6,6 +6,8 @@ import { DatabaseInterface } from './database.interface.js';
 
 @injectable()
 export default class DatabaseService implements DatabaseInterface {
+  private isTransactionSupported = false;
+
   constructor(
     @inject(Component.LoggerInterface) private logger: LoggerInterface,
   ) {}
@@ -14,10 +16,36 @@ export default class DatabaseService implements DatabaseInterface {
     this.logger.info('Try to connect to MongoDB...');
     await mongoose.connect(uri);
     this.logger.info('Database connection established.');
+
+    const {setName, msg} = await mongoose.connection.db.admin().command({hello: 1});
+    this.isTransactionSupported = Boolean(setName) || msg === 'isdbgrid';
+
+    if (!this.isTransactionSupported) {
+      this.logger.warn('MongoDB is not a replica set, multi-document operations run without transactions.');
+    }
   }
 
   public async disconnect(): Promise<void> {
     await mongoose.disconnect();
     this.logger.info('Database connection closed.');
   }
+
+  public async transaction<T>(operation: (session?: ClientSession) => Promise<T>): Promise<T> {
+    if (!this.isTransactionSupported) {
+      return operation();
+    }
+
+    const session = await mongoose.startSession();
+
+    try {
+      let result!: T;
+      await session.withTransaction(async () => {
+        result = await operation(session);
+      });
+
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
 }
@@ -0,0 +1,66 @@
+import { registerDecorator, ValidationArguments, ValidationOptions } from 'class-validator';
+
+/**
+ * Checks that the field named `field` is set whenever the decorated one is.
+ */
+export const RequiresField = (field: string, validationOptions?: ValidationOptions): PropertyDecorator =>
+  (target, propertyKey) => registerDecorator({
+    name: 'requiresField',
+    target: target.constructor,
+    propertyName: String(propertyKey),
+    constraints: [field],
+    options: {
+      message: `$property requires ${field}`,
+      ...validationOptions
+    },
+    validator: {
+      validate(_value: unknown, {object, constraints}: ValidationArguments) {
+        const [relatedField] = constraints as [string];
+        return (object as Record<string, unknown>)[relatedField] !== undefined;
+      }
+    }
+  });
+
+/**
+ * Checks that the decorated number is greater than the number held in `field`.
+ */
+export const IsGreaterThanField = (field: string, validationOptions?: ValidationOptions): PropertyDecorator =>
+  (target, propertyKey) => registerDecorator({
+    name: 'isGreaterThanField',
+    target: target.constructor,
+    propertyName: String(propertyKey),
+    constraints: [field],
+    options: {
+      message: `$property must be greater than ${field}`,
+      ...validationOptions
+    },
+    validator: {
+      validate(value: unknown, {object, constraints}: ValidationArguments) {
+        const [relatedField] = constraints as [string];
+        const related = (object as Record<string, unknown>)[relatedField];
+        return typeof value === 'number' && typeof related === 'number' && value > related;
+      }
+    }
+  });
+
+/**
+ * Checks that the decorated number is not less than the number held in `field`, when that one is set.
+ */
+export const IsNotLessThanField = (field: string, validationOptions?: ValidationOptions): PropertyDecorator =>
+  (target, propertyKey) => registerDecorator({
+    name: 'isNotLessThanField',
+    target: target.constructor,
+    propertyName: String(propertyKey),
+    constraints: [field],
+    options: {
+      message: `$property must not be less than ${field}`,
+      ...validationOptions
+    },
+    validator: {
+      validate(value: unknown, {object, constraints}: ValidationArguments) {
+        const [relatedField] = constraints as [string];
+        const related = (object as Record<string, unknown>)[relatedField];
+        return typeof related !== 'number' || (typeof value === 'number' && value >= related);
+      }
+    }
+  });
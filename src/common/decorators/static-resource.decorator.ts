@@ -0,0 +1,16 @@
+import 'reflect-metadata';
+
+const STATIC_RESOURCE_METADATA_KEY = Symbol.for('StaticResource');
+
+/**
+ * Marks a response field holding a file name (or an array or object of file names)
+ * that is turned into an absolute URL before the response is sent.
+ */
+export const StaticResource = (): PropertyDecorator =>
+  (target, propertyKey) => {
+    const fields: (string | symbol)[] = Reflect.getMetadata(STATIC_RESOURCE_METADATA_KEY, target) ?? [];
+    Reflect.defineMetadata(STATIC_RESOURCE_METADATA_KEY, [...fields, propertyKey], target);
+  };
+
+export const getStaticResourceFields = (target: object): (string | symbol)[] =>
+  Reflect.getMetadata(STATIC_RESOURCE_METADATA_KEY, target) ?? [];
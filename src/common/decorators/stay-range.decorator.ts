@@ -0,0 +1,50 @@
+import { registerDecorator, ValidationArguments, ValidationOptions } from 'class-validator';
+import { getNightCount, toUTCDay } from '../../utils/date.js';
+
+/**
+ * Checks that the decorated day comes after the day held in `startField`
+ * and that the stay between them lasts no longer than `maxNights`.
+ */
+export const IsStayEnd = (startField: string, maxNights: number, validationOptions?: ValidationOptions): PropertyDecorator =>
+  (target, propertyKey) => registerDecorator({
+    name: 'isStayEnd',
+    target: target.constructor,
+    propertyName: String(propertyKey),
+    constraints: [startField, maxNights],
+    options: {
+      message: `$property must be after ${startField} and at most ${maxNights} nights later`,
+      ...validationOptions
+    },
+    validator: {
+      validate(value: unknown, {object, constraints}: ValidationArguments) {
+        const [field, max] = constraints as [string, number];
+        const start = (object as Record<string, unknown>)[field];
+
+        if (typeof value !== 'string' || typeof start !== 'string') {
+          return false;
+        }
+
+        const nights = getNightCount(toUTCDay(start), toUTCDay(value));
+        return nights >= 1 && nights <= max;
+      }
+    }
+  });
+
+/**
+ * Checks that the decorated day is today or later (UTC).
+ */
+export const IsNotPastDay = (validationOptions?: ValidationOptions): PropertyDecorator =>
+  (target, propertyKey) => registerDecorator({
+    name: 'isNotPastDay',
+    target: target.constructor,
+    propertyName: String(propertyKey),
+    options: {
+      message: '$property cannot be in the past',
+      ...validationOptions
+    },
+    validator: {
+      validate(value: unknown) {
+        return typeof value === 'string' && toUTCDay(value) >= toUTCDay(new Date());
+      }
+    }
+  });
@@ -21,7 +21,7 @@ export default class ExceptionFilter implements ExceptionFilterInterface {
     this.logger.error(`[${error.detail}]: ${error.httpStatusCode} — ${error.message}`);
     res
       .status(error.httpStatusCode)
-      .json(createErrorObject(ServiceError.CommonError, error.message));
+      .json(createErrorObject(error.serviceError, error.message));
   }
 
   private handleOtherError(error: Error, _req: Request, res: Response, _next: NextFunction) {
@@ -1,12 +1,16 @@
+import { ServiceError } from '../../types/service-error.enum.js';
+
 export default class HttpError extends Error {
   public httpStatusCode!: number;
   public detail?: string;
+  public serviceError!: ServiceError;
 
-  constructor(httpStatusCode: number, message: string, detail?: string) {
+  constructor(httpStatusCode: number, message: string, detail?: string, serviceError = ServiceError.CommonError) {
     super(message);
 
     this.httpStatusCode = httpStatusCode;
     this.message = message;
     this.detail = detail;
+    this.serviceError = serviceError;
   }
 }
@@ -2,11 +2,15 @@ import { NextFunction, Request, Response } from 'express';
 import * as jose from 'jose';
 import { MiddlewareInterface } from '../../types/middleware.interface.js';
 import { createSecretKey } from 'crypto';
-import HttpError from '../errors/http-error.js';
-import { StatusCodes } from 'http-status-codes';
+import { DocumentExistsInterface } from '../../types/document-exists.interface.js';
+import { UserRole } from '../../types/user-role.enum.js';
+import { UserType } from '../../types/user-type.enum.js';
 
 export class AuthenticateMiddleware implements MiddlewareInterface {
-  constructor(private readonly jwtSecret: string) {}
+  constructor(
+    private readonly jwtSecret: string,
+    private readonly sessionService: DocumentExistsInterface,
+  ) {}
 
   public async execute(req: Request, _res: Response, next: NextFunction): Promise<void> {
     const authorizationHeader = req.headers?.authorization?.split(' ');
@@ -16,18 +20,30 @@ export class AuthenticateMiddleware implements MiddlewareInterface {
 
     const [, token] = authorizationHeader;
 
-    try {
-      const {payload} = await jose.jwtVerify(token, createSecretKey(this.jwtSecret, 'utf-8'));
-      req.user = { email: payload.email as string, id: payload.id as string };
+    let payload: jose.JWTPayload;
 
-      return next();
+    try {
+      ({payload} = await jose.jwtVerify(token, createSecretKey(this.jwtSecret, 'utf-8')));
     } catch {
+      // An expired or malformed token leaves the request anonymous: private routes still answer 401,
+      // while public ones such as POST /users/refresh stay reachable.
+      return next();
+    }
 
-      return next(new HttpError(
-        StatusCodes.UNAUTHORIZED,
-        'Invalid token',
-        'AuthenticateMiddleware')
-      );
+    // The same goes for tokens issued before sessions existed and for sessions revoked at logout.
+    const sessionId = payload.sessionId as string;
+    if (!sessionId || !await this.sessionService.exists(sessionId)) {
+      return next();
     }
+
+    req.user = {
+      email: payload.email as string,
+      id: payload.id as string,
+      role: payload.role as UserRole,
+      userType: payload.userType as UserType,
+      sessionId
+    };
+
+    return next();
   }
 }
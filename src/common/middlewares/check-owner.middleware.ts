@@ -0,0 +1,44 @@
+import { MiddlewareInterface } from '../../types/middleware.interface.js';
+import { NextFunction, Request, Response } from 'express';
+import { DocumentOwnerInterface } from '../../types/document-owner.interface.js';
+import HttpError from '../errors/http-error.js';
+import { StatusCodes } from 'http-status-codes';
+import { ServiceError } from '../../types/service-error.enum.js';
+import { UserRole } from '../../types/user-role.enum.js';
+
+export class CheckOwnerMiddleware implements MiddlewareInterface {
+  constructor(
+    private readonly service: DocumentOwnerInterface,
+    private readonly entityName: string,
+    private readonly paramName: string,
+    private readonly bypassRoles: UserRole[] = [],
+  ) {}
+
+  public async execute({params, user}: Request, _res: Response, next: NextFunction): Promise<void> {
+    if (user && this.bypassRoles.includes(user.role)) {
+      return next();
+    }
+
+    const documentId = params[this.paramName];
+    const ownerId = await this.service.findOwnerId(documentId);
+
+    if (ownerId === null) {
+      throw new HttpError(
+        StatusCodes.NOT_FOUND,
+        `${this.entityName} with ${documentId} not found.`,
+        'CheckOwnerMiddleware'
+      );
+    }
+
+    if (!user || ownerId !== user.id) {
+      throw new HttpError(
+        StatusCodes.FORBIDDEN,
+        `${this.entityName} with ${documentId} does not belong to the current user.`,
+        'CheckOwnerMiddleware',
+        ServiceError.ForbiddenError
+      );
+    }
+
+    next();
+  }
+}
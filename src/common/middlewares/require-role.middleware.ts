@@ -0,0 +1,32 @@
+import { StatusCodes } from 'http-status-codes';
+import { NextFunction, Request, Response } from 'express';
+import { MiddlewareInterface } from '../../types/middleware.interface.js';
+import { UserRole } from '../../types/user-role.enum.js';
+import { UserType } from '../../types/user-type.enum.js';
+import { ServiceError } from '../../types/service-error.enum.js';
+import HttpError from '../errors/http-error.js';
+
+export class RequireRoleMiddleware implements MiddlewareInterface {
+  constructor(private readonly allowed: Array<UserRole | UserType>) {}
+
+  public async execute({user}: Request, _res: Response, next: NextFunction): Promise<void> {
+    if (!user) {
+      throw new HttpError(
+        StatusCodes.UNAUTHORIZED,
+        'Unauthorized',
+        'RequireRoleMiddleware'
+      );
+    }
+
+    if (!this.allowed.includes(user.role) && !this.allowed.includes(user.userType)) {
+      throw new HttpError(
+        StatusCodes.FORBIDDEN,
+        `Access requires one of: ${this.allowed.join(', ')}`,
+        'RequireRoleMiddleware',
+        ServiceError.ForbiddenError
+      );
+    }
+
+    return next();
+  }
+}
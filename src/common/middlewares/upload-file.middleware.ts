@@ -1,28 +1,28 @@
 import { NextFunction, Request, Response } from 'express';
-import { nanoid } from 'nanoid';
-import multer, { diskStorage } from 'multer';
-import mime from 'mime-types';
+import multer, { memoryStorage } from 'multer';
 import { MiddlewareInterface } from '../../types/middleware.interface.js';
+import { StorageInterface } from '../storage/storage.interface.js';
+import { runUploadHandler, saveImageFiles, transformUploadError } from '../../utils/upload.js';
 
 export class UploadFileMiddleware implements MiddlewareInterface {
   constructor(
-    private uploadDirectory: string,
+    private storage: StorageInterface,
     private fieldName: string,
+    private maxFileSize: number,
   ) {}
 
   public async execute(req: Request, res: Response, next: NextFunction): Promise<void> {
-    const storage = diskStorage({
-      destination: this.uploadDirectory,
-      filename: (_req, file, callback) => {
-        const extension = mime.extension(file.mimetype);
-        const filename = nanoid();
-        callback(null, `${filename}.${extension}`);
-      }
-    });
+    const uploadSingleFileMiddleware = multer({
+      storage: memoryStorage(),
+      limits: {fileSize: this.maxFileSize, files: 1}
+    }).single(this.fieldName);
 
-    const uploadSingleFileMiddleware = multer({storage})
-      .single(this.fieldName);
+    await runUploadHandler(uploadSingleFileMiddleware, req, res)
+      .catch((error) => {
+        throw transformUploadError(error, this.maxFileSize, 'UploadFileMiddleware');
+      });
 
-    uploadSingleFileMiddleware(req, res, next);
+    await saveImageFiles(req, this.storage, this.fieldName, req.file ? [req.file] : []);
+    next();
   }
 }
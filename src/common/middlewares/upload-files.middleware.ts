@@ -1,27 +1,29 @@
 import { NextFunction, Request, Response } from 'express';
-import {nanoid} from 'nanoid';
-import multer, {diskStorage} from 'multer';
-import mime from 'mime-types';
-import {MiddlewareInterface} from '../../types/middleware.interface.js';
-import { IMAGES_OFFER_COUNT } from '../../modules/offer/offer.constant.js';
+import multer, { memoryStorage } from 'multer';
+import { MiddlewareInterface } from '../../types/middleware.interface.js';
+import { StorageInterface } from '../storage/storage.interface.js';
+import { runUploadHandler, saveImageFiles, transformUploadError } from '../../utils/upload.js';
 
 export class UploadFilesMiddleware implements MiddlewareInterface {
   constructor(
-    private uploadDirectory: string,
+    private storage: StorageInterface,
     private fieldName: string,
+    private maxFileSize: number,
+    private maxFileCount: number,
   ) {}
 
   public async execute(req: Request, res: Response, next: NextFunction): Promise<void> {
-    const storage = diskStorage({
-      destination: this.uploadDirectory,
-      filename: (_req, file, callback) => {
-        const extension = mime.extension(file.mimetype);
-        const filename = nanoid();
-        callback(null, `${filename}.${extension}`);
-      }
-    });
+    const uploadFilesMiddleware = multer({
+      storage: memoryStorage(),
+      limits: {fileSize: this.maxFileSize, files: this.maxFileCount}
+    }).array(this.fieldName, this.maxFileCount);
 
-    const uploadSingleFilesMiddleware = multer({storage}).array(this.fieldName, IMAGES_OFFER_COUNT);
-    uploadSingleFilesMiddleware(req, res, next);
+    await runUploadHandler(uploadFilesMiddleware, req, res)
+      .catch((error) => {
+        throw transformUploadError(error, this.maxFileSize, 'UploadFilesMiddleware');
+      });
+
+    await saveImageFiles(req, this.storage, this.fieldName, req.files as Express.Multer.File[] ?? []);
+    next();
   }
 }
@@ -31,7 +31,6 @@ export default class OfferGenerator implements OfferGeneratorInterface {
     const previewImage = getRandomItem<string>(this.mockData.previewImages);
     const offerImages = getRandomItems<string>(this.mockData.offerImages).join(';');
     const isPremium = getRandomItem<boolean>([true, false]);
-    const isFavorites = getRandomItem<boolean>([true, false]);
     const rating = generateRandomValue(MIN_RATING, MAX_RATING);
     const type = getRandomItem([OfferType.apartment, OfferType.house, OfferType.room, OfferType.hotel]);
     const roomCount = generateRandomValue(MIN_ROOM, MAX_ROOM);
@@ -62,7 +61,6 @@ export default class OfferGenerator implements OfferGeneratorInterface {
       previewImage,
       offerImages,
       isPremium,
-      isFavorites,
       rating,
       type,
       roomCount,
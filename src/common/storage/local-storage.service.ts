@@ -0,0 +1,49 @@
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { inject, injectable } from 'inversify';
+import { Component } from '../../types/component.types.js';
+import { ConfigInterface } from '../config/config.interface.js';
+import { StorageInterface } from './storage.interface.js';
+import { UPLOAD_ROUTE } from '../../app/application.constant.js';
+
+@injectable()
+export default class LocalStorageService implements StorageInterface {
+  constructor(
+    @inject(Component.ConfigInterface) private readonly config: ConfigInterface,
+  ) {}
+
+  private getPath(filename: string): string {
+    return resolve(this.config.get('UPLOAD_DIRECTORY'), filename);
+  }
+
+  public async save(filename: string, content: Buffer): Promise<void> {
+    await mkdir(this.config.get('UPLOAD_DIRECTORY'), {recursive: true});
+    await writeFile(this.getPath(filename), content);
+  }
+
+  public async read(filename: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.getPath(filename));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+
+      return null;
+    }
+  }
+
+  public async remove(filename: string): Promise<void> {
+    try {
+      await unlink(this.getPath(filename));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  public getUrl(filename: string, publicUrl: string): string {
+    return `${publicUrl}${UPLOAD_ROUTE}/${encodeURIComponent(filename)}`;
+  }
+}
@@ -0,0 +1,71 @@
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { inject, injectable } from 'inversify';
+import { Component } from '../../types/component.types.js';
+import { ConfigInterface } from '../config/config.interface.js';
+import { StorageInterface } from './storage.interface.js';
+
+@injectable()
+export default class S3StorageService implements StorageInterface {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly publicUrl: string;
+
+  constructor(
+    @inject(Component.ConfigInterface) config: ConfigInterface,
+  ) {
+    const endpoint = config.get('S3_ENDPOINT');
+    const region = config.get('S3_REGION');
+
+    this.bucket = config.get('S3_BUCKET');
+    this.client = new S3Client({
+      region,
+      endpoint: endpoint || undefined,
+      forcePathStyle: Boolean(endpoint),
+      credentials: {
+        accessKeyId: config.get('S3_ACCESS_KEY_ID'),
+        secretAccessKey: config.get('S3_SECRET_ACCESS_KEY'),
+      }
+    });
+
+    // S3-compatible servers (MinIO etc.) are addressed path-style, AWS itself by virtual host.
+    this.publicUrl = config.get('S3_PUBLIC_URL')
+      || (endpoint ? `${endpoint.replace(/\/+$/, '')}/${this.bucket}` : `https://${this.bucket}.s3.${region}.amazonaws.com`);
+  }
+
+  public async save(filename: string, content: Buffer, mimetype: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: filename,
+      Body: content,
+      ContentType: mimetype,
+    }));
+  }
+
+  public async read(filename: string): Promise<Buffer | null> {
+    try {
+      const {Body} = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: filename,
+      }));
+
+      return Body ? Buffer.from(await Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  public async remove(filename: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: filename,
+    }));
+  }
+
+  public getUrl(filename: string): string {
+    return `${this.publicUrl.replace(/\/+$/, '')}/${encodeURIComponent(filename)}`;
+  }
+}
@@ -0,0 +1,10 @@
+import { ConfigInterface } from '../config/config.interface.js';
+import { StorageInterface } from './storage.interface.js';
+import LocalStorageService from './local-storage.service.js';
+import S3StorageService from './s3-storage.service.js';
+import { StorageDriver } from '../../types/storage-driver.enum.js';
+
+export const createStorage = (config: ConfigInterface): StorageInterface =>
+  config.get('STORAGE_DRIVER') === StorageDriver.S3
+    ? new S3StorageService(config)
+    : new LocalStorageService(config);
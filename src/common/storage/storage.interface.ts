@@ -0,0 +1,6 @@
+export interface StorageInterface {
+  save(filename: string, content: Buffer, mimetype: string): Promise<void>;
+  read(filename: string): Promise<Buffer | null>;
+  remove(filename: string): Promise<void>;
+  getUrl(filename: string, publicUrl: string): string;
+}
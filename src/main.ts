@@ -6,12 +6,16 @@ import Application from './app/application.js';
 import { Component } from './types/component.types.js';
 import { userContainer } from './modules/user/user.container.js';
 import { offerContainer } from './modules/offer/offer.container.js';
+import { sessionContainer } from './modules/session/session.container.js';
+import { bookingContainer } from './modules/booking/booking.container.js';
 
 const mainContainer = Container.merge(
   applicationContainer,
   userContainer,
   commentContainer,
-  offerContainer
+  offerContainer,
+  sessionContainer,
+  bookingContainer
 );
 
 async function bootstrap() {
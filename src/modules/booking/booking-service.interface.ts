@@ -0,0 +1,27 @@
+import { DocumentType } from '@typegoose/typegoose/lib/types.js';
+import { ClientSession } from 'mongoose';
+import { BookingEntity } from './booking.entity.js';
+import CreateBookingDto from './dto/create-booking.dto.js';
+import CreateBlockDto from './dto/create-block.dto.js';
+import BookingQueryDto from './dto/booking-query.dto.js';
+import { Paginated } from '../../types/paginated.type.js';
+import { AvailabilityDay } from '../../types/availability-day.type.js';
+import { DocumentExistsInterface } from '../../types/document-exists.interface.js';
+import { DocumentOwnerInterface } from '../../types/document-owner.interface.js';
+
+export interface BookingServiceInterface extends DocumentExistsInterface, DocumentOwnerInterface {
+  create(dto: CreateBookingDto): Promise<DocumentType<BookingEntity>>;
+  createBlock(dto: CreateBlockDto): Promise<DocumentType<BookingEntity>>;
+  findById(bookingId: string): Promise<DocumentType<BookingEntity> | null>;
+  findByUserId(userId: string, query?: BookingQueryDto): Promise<Paginated<DocumentType<BookingEntity>>>;
+  findByOfferId(offerId: string, query?: BookingQueryDto): Promise<Paginated<DocumentType<BookingEntity>>>;
+  cancelById(bookingId: string, checkInFrom: Date): Promise<DocumentType<BookingEntity> | null>;
+  findBlocks(offerId: string): Promise<DocumentType<BookingEntity>[]>;
+  deleteBlock(offerId: string, blockId: string): Promise<DocumentType<BookingEntity> | null>;
+  getAvailability(offerId: string, from: Date, to: Date): Promise<AvailabilityDay[]>;
+  findBusyOfferIds(offerIds: string[], checkIn: Date, checkOut: Date): Promise<string[]>;
+  hasActiveReservations(offerId: string, checkOutAfter: Date): Promise<boolean>;
+  deleteByOfferId(offerId: string, session?: ClientSession): Promise<number>;
+  exists(documentId: string): Promise<boolean>;
+  findOwnerId(documentId: string): Promise<string | null>;
+}
@@ -0,0 +1,5 @@
+export const BOOKING_SORT_FIELD = 'checkIn';
+export const DEFAULT_BOOKING_COUNT = 50;
+export const MAX_BOOKING_COUNT = 100;
+export const MAX_BOOKING_NIGHTS = 30;
+export const MAX_AVAILABILITY_DAYS = 366;
@@ -0,0 +1,16 @@
+import { Container } from 'inversify';
+import { types } from '@typegoose/typegoose';
+import { BookingEntity, BookingModel } from './booking.entity.js';
+import { BookingServiceInterface } from './booking-service.interface.js';
+import { ControllerInterface } from '../../common/controller/controller.interface.js';
+import BookingService from './booking.service.js';
+import BookingController from './booking.controller.js';
+import { Component } from '../../types/component.types.js';
+
+const bookingContainer = new Container();
+
+bookingContainer.bind<BookingServiceInterface>(Component.BookingServiceInterface).to(BookingService).inSingletonScope();
+bookingContainer.bind<types.ModelType<BookingEntity>>(Component.BookingModel).toConstantValue(BookingModel);
+bookingContainer.bind<ControllerInterface>(Component.BookingController).to(BookingController).inSingletonScope();
+
+export { bookingContainer };
@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import * as core from 'express-serve-static-core';
+import { StatusCodes } from 'http-status-codes';
+import { inject, injectable } from 'inversify';
+import { isDocument } from '@typegoose/typegoose';
+import { Controller } from '../../common/controller/controller.js';
+import { Component } from '../../types/component.types.js';
+import { LoggerInterface } from '../../common/logger/logger.interface.js';
+import { BookingServiceInterface } from './booking-service.interface.js';
+import { HttpMethod } from '../../types/http-method.enum.js';
+import { fillDTO, getRefId } from '../../utils/common.js';
+import { toUTCDay } from '../../utils/date.js';
+import BookingResponse from './response/booking.response.js';
+import BookingQueryDto from './dto/booking-query.dto.js';
+import HttpError from '../../common/errors/http-error.js';
+import { PrivateRouteMiddleware } from '../../common/middlewares/private-route.middleware.js';
+import { ValidateQueryMiddleware } from '../../common/middlewares/validate-query.middleware.js';
+import { ConfigInterface } from '../../common/config/config.interface.js';
+import { StorageInterface } from '../../common/storage/storage.interface.js';
+import { ValidateObjectIdMiddleware } from '../../common/middlewares/validate-objectid.middleware.js';
+import { DocumentExistsMiddleware } from '../../common/middlewares/document-exists.middleware.js';
+import { CheckOwnerMiddleware } from '../../common/middlewares/check-owner.middleware.js';
+import { ServiceError } from '../../types/service-error.enum.js';
+
+type ParamsGetBooking = {
+  bookingId: string;
+}
+
+@injectable()
+export default class BookingController extends Controller {
+  constructor(
+    @inject(Component.LoggerInterface) logger: LoggerInterface,
+    @inject(Component.ConfigInterface) configService: ConfigInterface,
+    @inject(Component.StorageInterface) storage: StorageInterface,
+    @inject(Component.BookingServiceInterface) private readonly bookingService: BookingServiceInterface,
+  ) {
+    super(logger, configService, storage);
+
+    this.logger.info('Register routes for BookingController...');
+    this.addRoute({
+      path: '/',
+      method: HttpMethod.Get,
+      handler: this.index,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateQueryMiddleware(BookingQueryDto),
+      ]
+    });
+    this.addRoute({
+      path: '/:bookingId',
+      method: HttpMethod.Get,
+      handler: this.show,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('bookingId'),
+        new DocumentExistsMiddleware(this.bookingService, 'Booking', 'bookingId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:bookingId/cancel',
+      method: HttpMethod.Post,
+      handler: this.cancel,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('bookingId'),
+        new DocumentExistsMiddleware(this.bookingService, 'Booking', 'bookingId'),
+        new CheckOwnerMiddleware(this.bookingService, 'Booking', 'bookingId'),
+      ]
+    });
+  }
+
+  public async index(
+    {query, user}: Request<core.ParamsDictionary, unknown, unknown, BookingQueryDto>,
+    res: Response
+  ): Promise<void> {
+    const {items, total, nextCursor} = await this.bookingService.findByUserId(user.id, query);
+    this.ok(res, {
+      items: fillDTO(BookingResponse, items),
+      total,
+      nextCursor
+    });
+  }
+
+  public async show(
+    {params, user}: Request<core.ParamsDictionary | ParamsGetBooking>,
+    res: Response
+  ): Promise<void> {
+    const {bookingId} = params;
+    const booking = await this.bookingService.findById(bookingId);
+    // Both sides of the stay may look at it: the guest who booked and the host of the offer.
+    const isGuest = booking && getRefId(booking.userId) === user.id;
+    const isHost = booking && isDocument(booking.offerId) && getRefId(booking.offerId.userId) === user.id;
+
+    if (!isGuest && !isHost) {
+      throw new HttpError(
+        StatusCodes.FORBIDDEN,
+        `Booking with ${bookingId} does not belong to the current user.`,
+        'BookingController',
+        ServiceError.ForbiddenError
+      );
+    }
+
+    this.ok(res, fillDTO(BookingResponse, booking));
+  }
+
+  public async cancel(
+    {params}: Request<core.ParamsDictionary | ParamsGetBooking>,
+    res: Response
+  ): Promise<void> {
+    const {bookingId} = params;
+    const booking = await this.bookingService.cancelById(bookingId, toUTCDay(new Date()));
+
+    if (!booking) {
+      throw new HttpError(
+        StatusCodes.CONFLICT,
+        `Booking with ${bookingId} is already cancelled or has already started.`,
+        'BookingController'
+      );
+    }
+
+    this.ok(res, fillDTO(BookingResponse, booking));
+  }
+}
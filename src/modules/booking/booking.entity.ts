@@ -0,0 +1,60 @@
+import typegoose, { getModelForClass, Ref, defaultClasses } from '@typegoose/typegoose';
+import { UserEntity } from '../user/user.entity.js';
+import { OfferEntity } from '../offer/offer.entity.js';
+import { BookingStatus } from '../../types/booking-status.enum.js';
+import { BookingKind } from '../../types/booking-kind.enum.js';
+
+const {prop, modelOptions, index} = typegoose;
+
+export interface BookingEntity extends defaultClasses.Base {}
+
+@modelOptions({
+  schemaOptions: {
+    collection: 'bookings'
+  }
+})
+@index({userId: 1, checkIn: -1, _id: -1})
+@index({offerId: 1, checkIn: -1, _id: -1})
+@index({offerId: 1, nights: 1}, {unique: true, partialFilterExpression: {status: BookingStatus.Active}})
+export class BookingEntity extends defaultClasses.TimeStamps {
+  @prop({
+    ref: OfferEntity,
+    required: true
+  })
+  public offerId!: Ref<OfferEntity>;
+
+  @prop({
+    ref: UserEntity,
+    required: true,
+  })
+  public userId!: Ref<UserEntity>;
+
+  @prop({required: true})
+  public checkIn!: Date;
+
+  @prop({required: true})
+  public checkOut!: Date;
+
+  // One entry per occupied night: the unique index above makes overlapping active bookings and blocks impossible.
+  @prop({type: () => [Date], required: true})
+  public nights!: Date[];
+
+  @prop({required: true})
+  public guestsCount!: number;
+
+  @prop({
+    type: () => String,
+    enum: BookingKind,
+    default: BookingKind.Reservation
+  })
+  public kind!: BookingKind;
+
+  @prop({
+    type: () => String,
+    enum: BookingStatus,
+    default: BookingStatus.Active
+  })
+  public status!: BookingStatus;
+}
+
+export const BookingModel = getModelForClass(BookingEntity);
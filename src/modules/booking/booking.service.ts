@@ -0,0 +1,164 @@
+import { inject, injectable } from 'inversify';
+import { DocumentType, types } from '@typegoose/typegoose';
+import { ClientSession, FilterQuery } from 'mongoose';
+import { BookingServiceInterface } from './booking-service.interface.js';
+import { Component } from '../../types/component.types.js';
+import { BookingEntity } from './booking.entity.js';
+import CreateBookingDto from './dto/create-booking.dto.js';
+import CreateBlockDto from './dto/create-block.dto.js';
+import BookingQueryDto from './dto/booking-query.dto.js';
+import { Paginated } from '../../types/paginated.type.js';
+import { SortType } from '../../types/sort-type.enum.js';
+import { BookingStatus } from '../../types/booking-status.enum.js';
+import { BookingKind } from '../../types/booking-kind.enum.js';
+import { AvailabilityDay } from '../../types/availability-day.type.js';
+import { createPage, getCursorFilter, getCursorSort } from '../../utils/pagination.js';
+import { formatDay, getStayNights, toUTCDay } from '../../utils/date.js';
+import { BOOKING_SORT_FIELD, DEFAULT_BOOKING_COUNT } from './booking.constant.js';
+
+@injectable()
+export default class BookingService implements BookingServiceInterface {
+  constructor(
+    @inject(Component.BookingModel) private readonly bookingModel: types.ModelType<BookingEntity>
+  ) {}
+
+  public async create(dto: CreateBookingDto): Promise<DocumentType<BookingEntity>> {
+    const checkIn = toUTCDay(dto.checkIn);
+    const checkOut = toUTCDay(dto.checkOut);
+    const booking = await this.bookingModel.create({
+      ...dto,
+      checkIn,
+      checkOut,
+      nights: getStayNights(checkIn, checkOut),
+    });
+
+    return booking.populate(['offerId', 'userId']);
+  }
+
+  public async createBlock(dto: CreateBlockDto): Promise<DocumentType<BookingEntity>> {
+    const checkIn = toUTCDay(dto.from);
+    const checkOut = toUTCDay(dto.to);
+
+    return this.bookingModel.create({
+      offerId: dto.offerId,
+      userId: dto.userId,
+      checkIn,
+      checkOut,
+      nights: getStayNights(checkIn, checkOut),
+      guestsCount: 0,
+      kind: BookingKind.Block,
+    });
+  }
+
+  public async findById(bookingId: string): Promise<DocumentType<BookingEntity> | null> {
+    return this.bookingModel
+      .findById(bookingId)
+      .populate(['offerId', 'userId'])
+      .exec();
+  }
+
+  private async findPage(filter: FilterQuery<BookingEntity>, query: BookingQueryDto): Promise<Paginated<DocumentType<BookingEntity>>> {
+    const limit = query.limit ?? DEFAULT_BOOKING_COUNT;
+    const kindFilter = {...filter, kind: BookingKind.Reservation};
+    const listFilter = query.status ? {...kindFilter, status: query.status} : kindFilter;
+    const pageFilter = query.cursor
+      ? {...listFilter, ...getCursorFilter<BookingEntity>(BOOKING_SORT_FIELD, SortType.Down, query.cursor)}
+      : listFilter;
+
+    const [bookings, total] = await Promise.all([
+      this.bookingModel
+        .find(pageFilter, {}, {limit: limit + 1})
+        .sort(getCursorSort(BOOKING_SORT_FIELD, SortType.Down))
+        .populate(['offerId', 'userId'])
+        .exec(),
+      this.bookingModel
+        .countDocuments(listFilter)
+        .exec(),
+    ]);
+
+    return createPage(bookings, limit, total, BOOKING_SORT_FIELD);
+  }
+
+  public async findByUserId(userId: string, query: BookingQueryDto = {}): Promise<Paginated<DocumentType<BookingEntity>>> {
+    return this.findPage({userId}, query);
+  }
+
+  public async findByOfferId(offerId: string, query: BookingQueryDto = {}): Promise<Paginated<DocumentType<BookingEntity>>> {
+    return this.findPage({offerId}, query);
+  }
+
+  public async cancelById(bookingId: string, checkInFrom: Date): Promise<DocumentType<BookingEntity> | null> {
+    return this.bookingModel
+      .findOneAndUpdate(
+        {_id: bookingId, kind: BookingKind.Reservation, status: BookingStatus.Active, checkIn: {'$gte': checkInFrom}},
+        {status: BookingStatus.Cancelled},
+        {new: true}
+      )
+      .populate(['offerId', 'userId'])
+      .exec();
+  }
+
+  public async findBlocks(offerId: string): Promise<DocumentType<BookingEntity>[]> {
+    return this.bookingModel
+      .find({offerId, kind: BookingKind.Block, status: BookingStatus.Active})
+      .sort({checkIn: SortType.Up})
+      .exec();
+  }
+
+  public async deleteBlock(offerId: string, blockId: string): Promise<DocumentType<BookingEntity> | null> {
+    return this.bookingModel
+      .findOneAndDelete({_id: blockId, offerId, kind: BookingKind.Block})
+      .exec();
+  }
+
+  public async getAvailability(offerId: string, from: Date, to: Date): Promise<AvailabilityDay[]> {
+    const bookings = await this.bookingModel
+      .find({offerId, status: BookingStatus.Active, checkIn: {'$lt': to}, checkOut: {'$gt': from}}, {nights: 1})
+      .exec();
+    const busyDays = new Set(bookings.flatMap(({nights}) => nights.map(formatDay)));
+
+    return getStayNights(from, to).map((day) => ({
+      date: formatDay(day),
+      isFree: !busyDays.has(formatDay(day)),
+    }));
+  }
+
+  public async findBusyOfferIds(offerIds: string[], checkIn: Date, checkOut: Date): Promise<string[]> {
+    const busyOfferIds = await this.bookingModel
+      .distinct('offerId', {
+        offerId: {'$in': offerIds},
+        status: BookingStatus.Active,
+        checkIn: {'$lt': checkOut},
+        checkOut: {'$gt': checkIn}
+      })
+      .exec();
+
+    return busyOfferIds.map(String);
+  }
+
+  public async hasActiveReservations(offerId: string, checkOutAfter: Date): Promise<boolean> {
+    return (await this.bookingModel
+      .exists({offerId, kind: BookingKind.Reservation, status: BookingStatus.Active, checkOut: {'$gt': checkOutAfter}})) !== null;
+  }
+
+  public async deleteByOfferId(offerId: string, session?: ClientSession): Promise<number> {
+    const result = await this.bookingModel
+      .deleteMany({offerId}, {session})
+      .exec();
+
+    return result.deletedCount;
+  }
+
+  public async exists(documentId: string): Promise<boolean> {
+    return (await this.bookingModel
+      .exists({_id: documentId, kind: BookingKind.Reservation})) !== null;
+  }
+
+  public async findOwnerId(documentId: string): Promise<string | null> {
+    const booking = await this.bookingModel
+      .findById(documentId, {userId: 1})
+      .exec();
+
+    return booking ? String(booking.userId) : null;
+  }
+}
@@ -0,0 +1,15 @@
+import { IsDateString, Matches } from 'class-validator';
+import { DAY_PATTERN } from '../../../utils/date.js';
+import { IsStayEnd } from '../../../common/decorators/stay-range.decorator.js';
+import { MAX_AVAILABILITY_DAYS } from '../booking.constant.js';
+
+export default class AvailabilityQueryDto {
+  @Matches(DAY_PATTERN, {message: 'from must be a date in YYYY-MM-DD format'})
+  @IsDateString({strict: true}, {message: 'from must be valid ISO date'})
+  public from?: string;
+
+  @Matches(DAY_PATTERN, {message: 'to must be a date in YYYY-MM-DD format'})
+  @IsDateString({strict: true}, {message: 'to must be valid ISO date'})
+  @IsStayEnd('from', MAX_AVAILABILITY_DAYS)
+  public to?: string;
+}
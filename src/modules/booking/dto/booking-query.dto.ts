@@ -0,0 +1,24 @@
+import { Transform, Type } from 'class-transformer';
+import { IsEnum, IsInt, IsObject, IsOptional, Max, Min } from 'class-validator';
+import { Cursor } from '../../../types/cursor.type.js';
+import { BookingStatus } from '../../../types/booking-status.enum.js';
+import { transformQueryCursor } from '../../../utils/common.js';
+import { MAX_BOOKING_COUNT } from '../booking.constant.js';
+
+export default class BookingQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'limit must be an integer'})
+  @Min(1, {message: 'Minimum limit is 1'})
+  @Max(MAX_BOOKING_COUNT, {message: `Maximum limit is ${MAX_BOOKING_COUNT}`})
+  public limit?: number;
+
+  @IsOptional()
+  @Transform(transformQueryCursor)
+  @IsObject({message: 'cursor is invalid'})
+  public cursor?: Cursor;
+
+  @IsOptional()
+  @IsEnum(BookingStatus, {message: '$property should be a value from BookingStatus'})
+  public status?: BookingStatus;
+}
@@ -0,0 +1,24 @@
+import { IsDateString, IsInt, Matches, Min } from 'class-validator';
+import { DAY_PATTERN } from '../../../utils/date.js';
+import { IsNotPastDay, IsStayEnd } from '../../../common/decorators/stay-range.decorator.js';
+import { MAX_BOOKING_NIGHTS } from '../booking.constant.js';
+
+export default class CreateBookingDto {
+  @Matches(DAY_PATTERN, {message: 'checkIn must be a date in YYYY-MM-DD format'})
+  @IsDateString({strict: true}, {message: 'checkIn must be valid ISO date'})
+  @IsNotPastDay()
+  public checkIn!: string;
+
+  @Matches(DAY_PATTERN, {message: 'checkOut must be a date in YYYY-MM-DD format'})
+  @IsDateString({strict: true}, {message: 'checkOut must be valid ISO date'})
+  @IsStayEnd('checkIn', MAX_BOOKING_NIGHTS)
+  public checkOut!: string;
+
+  @IsInt({message: 'guestsCount must be an integer'})
+  @Min(1, {message: 'Minimum guestsCount is 1'})
+  public guestsCount!: number;
+
+  public offerId!: string;
+
+  public userId!: string;
+}
@@ -0,0 +1,15 @@
+import { Expose, Transform } from 'class-transformer';
+import { formatDay } from '../../../utils/date.js';
+
+export default class BlockResponse {
+  @Expose()
+  public id!: string;
+
+  @Expose()
+  @Transform(({obj}) => formatDay(obj.checkIn))
+  public from!: string;
+
+  @Expose()
+  @Transform(({obj}) => formatDay(obj.checkOut))
+  public to!: string;
+}
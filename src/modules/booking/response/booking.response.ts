@@ -0,0 +1,35 @@
+import { Expose, Transform, Type } from 'class-transformer';
+import UserResponse from '../../user/response/user.response.js';
+import OffersResponse from '../../offer/response/offers.response.js';
+import { BookingStatus } from '../../../types/booking-status.enum.js';
+import { formatDay } from '../../../utils/date.js';
+
+export default class BookingResponse {
+  @Expose()
+  public id!: string;
+
+  @Expose({ name: 'offerId'})
+  @Type(() => OffersResponse)
+  public offer!: OffersResponse;
+
+  @Expose({ name: 'userId'})
+  @Type(() => UserResponse)
+  public user!: UserResponse;
+
+  @Expose()
+  @Transform(({obj}) => formatDay(obj.checkIn))
+  public checkIn!: string;
+
+  @Expose()
+  @Transform(({obj}) => formatDay(obj.checkOut))
+  public checkOut!: string;
+
+  @Expose()
+  public guestsCount!: number;
+
+  @Expose()
+  public status!: BookingStatus;
+
+  @Expose()
+  public createdAt!: string;
+}
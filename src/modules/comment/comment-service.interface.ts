@@ -1,9 +1,20 @@
 import { DocumentType } from '@typegoose/typegoose/lib/types.js';
+import { ClientSession } from 'mongoose';
 import { CommentEntity } from './comment.entity.js';
 import CreateCommentDto from './dto/create-comment.dto.js';
+import CommentQueryDto from './dto/comment-query.dto.js';
+import UpdateCommentDto from './dto/update-comment.dto.js';
+import { Paginated } from '../../types/paginated.type.js';
+import { DocumentExistsInterface } from '../../types/document-exists.interface.js';
+import { DocumentOwnerInterface } from '../../types/document-owner.interface.js';
 
-export interface CommentServiceInterface {
+export interface CommentServiceInterface extends DocumentExistsInterface, DocumentOwnerInterface {
   create(dto: CreateCommentDto): Promise<DocumentType<CommentEntity>>;
-  findByOfferId(offerId: string): Promise<DocumentType<CommentEntity>[]>;
-  deleteByOfferId(offerId: string): Promise<number | null>;
+  findById(commentId: string): Promise<DocumentType<CommentEntity> | null>;
+  updateAndFindPrevious(commentId: string, dto: UpdateCommentDto): Promise<DocumentType<CommentEntity> | null>;
+  deleteById(commentId: string): Promise<DocumentType<CommentEntity> | null>;
+  findByOfferId(offerId: string, query?: CommentQueryDto): Promise<Paginated<DocumentType<CommentEntity>>>;
+  deleteByOfferId(offerId: string, session?: ClientSession): Promise<number | null>;
+  exists(documentId: string): Promise<boolean>;
+  findOwnerId(documentId: string): Promise<string | null>;
 }
@@ -0,0 +1,2 @@
+export const COMMENT_SORT_FIELD = 'createdAt';
+export const MAX_COMMENT_COUNT = 100;
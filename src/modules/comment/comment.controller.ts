@@ -1,57 +1,105 @@
 import { Request, Response } from 'express';
+import * as core from 'express-serve-static-core';
 import { inject } from 'inversify';
-import { StatusCodes } from 'http-status-codes';
 import { Controller } from '../../common/controller/controller.js';
 import { Component } from '../../types/component.types.js';
 import { LoggerInterface } from '../../common/logger/logger.interface.js';
 import { CommentServiceInterface } from './comment-service.interface.js';
-import CreateCommentDto from './dto/create-comment.dto.js';
 import {OfferServiceInterface} from '../offer/offer-service.interface.js';
-import HttpError from '../../common/errors/http-error.js';
 import { HttpMethod } from '../../types/http-method.enum.js';
 import { fillDTO } from '../../utils/common.js';
 import CommentResponse from './response/comment.response.js';
 import { PrivateRouteMiddleware } from '../../common/middlewares/private-route.middleware.js';
 import { ValidateDtoMiddleware } from '../../common/middlewares/validate-dto.middleware.js';
 import { ConfigInterface } from '../../common/config/config.interface.js';
+import { StorageInterface } from '../../common/storage/storage.interface.js';
+import { ValidateObjectIdMiddleware } from '../../common/middlewares/validate-objectid.middleware.js';
+import { DocumentExistsMiddleware } from '../../common/middlewares/document-exists.middleware.js';
+import { CheckOwnerMiddleware } from '../../common/middlewares/check-owner.middleware.js';
+import UpdateCommentDto from './dto/update-comment.dto.js';
+import { MODERATOR_ROLES } from '../user/user.constant.js';
+
+type ParamsGetComment = {
+  commentId: string;
+}
 
 export default class CommentController extends Controller {
   constructor(
     @inject(Component.LoggerInterface) logger: LoggerInterface,
     @inject(Component.ConfigInterface) configService: ConfigInterface,
+    @inject(Component.StorageInterface) storage: StorageInterface,
     @inject(Component.CommentServiceInterface) private readonly commentService: CommentServiceInterface,
     @inject(Component.OfferServiceInterface) private readonly offerService: OfferServiceInterface,
   ) {
-    super(logger, configService);
+    super(logger, configService, storage);
 
     this.logger.info('Register routes for CommentController...');
     this.addRoute({
-      path: '/',
-      method: HttpMethod.Post,
-      handler: this.create,
+      path: '/:commentId',
+      method: HttpMethod.Get,
+      handler: this.show,
+      middlewares: [
+        new ValidateObjectIdMiddleware('commentId'),
+        new DocumentExistsMiddleware(this.commentService, 'Comment', 'commentId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:commentId',
+      method: HttpMethod.Patch,
+      handler: this.update,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('commentId'),
+        new ValidateDtoMiddleware(UpdateCommentDto),
+        new DocumentExistsMiddleware(this.commentService, 'Comment', 'commentId'),
+        new CheckOwnerMiddleware(this.commentService, 'Comment', 'commentId', MODERATOR_ROLES),
+      ]
+    });
+    this.addRoute({
+      path: '/:commentId',
+      method: HttpMethod.Delete,
+      handler: this.delete,
       middlewares: [
         new PrivateRouteMiddleware(),
-        new ValidateDtoMiddleware(CreateCommentDto),
+        new ValidateObjectIdMiddleware('commentId'),
+        new DocumentExistsMiddleware(this.commentService, 'Comment', 'commentId'),
+        new CheckOwnerMiddleware(this.commentService, 'Comment', 'commentId', MODERATOR_ROLES),
       ]
     });
   }
 
-  public async create(
-    req: Request<object, object, CreateCommentDto>,
+  public async show(
+    {params}: Request<core.ParamsDictionary | ParamsGetComment>,
+    res: Response
+  ): Promise<void> {
+    const comment = await this.commentService.findById(params.commentId);
+    this.ok(res, fillDTO(CommentResponse, comment));
+  }
+
+  public async update(
+    {body, params}: Request<core.ParamsDictionary | ParamsGetComment, Record<string, unknown>, UpdateCommentDto>,
+    res: Response
+  ): Promise<void> {
+    const {commentId} = params;
+    const previousComment = await this.commentService.updateAndFindPrevious(commentId, body);
+
+    if (previousComment && body.rating !== undefined && body.rating !== previousComment.rating) {
+      await this.offerService.changeCommentRating(String(previousComment.offerId), body.rating - previousComment.rating);
+    }
+
+    this.ok(res, fillDTO(CommentResponse, await this.commentService.findById(commentId)));
+  }
+
+  public async delete(
+    {params}: Request<core.ParamsDictionary | ParamsGetComment>,
     res: Response
   ): Promise<void> {
+    const comment = await this.commentService.deleteById(params.commentId);
 
-    const {body} = req;
-    if (!await this.offerService.exists(body.offerId)) {
-      throw new HttpError(
-        StatusCodes.NOT_FOUND,
-        `Offer with id ${body.offerId} not found.`,
-        'CommentController'
-      );
+    if (comment) {
+      await this.offerService.decCommentCount(String(comment.offerId), comment.rating);
     }
 
-    const comment = await this.commentService.create({...body, userId: req.user.id});
-    await this.offerService.incCommentCount(body.offerId);
-    this.created(res, fillDTO(CommentResponse, comment));
+    this.noContent(res);
   }
 }
@@ -2,7 +2,7 @@ import typegoose, { getModelForClass, Ref, defaultClasses } from '@typegoose/typ
 import { UserEntity } from '../user/user.entity.js';
 import { OfferEntity } from '../offer/offer.entity.js';
 
-const {prop, modelOptions} = typegoose;
+const {prop, modelOptions, index} = typegoose;
 
 export interface CommentEntity extends defaultClasses.Base {}
 
@@ -11,6 +11,8 @@ export interface CommentEntity extends defaultClasses.Base {}
     collection: 'comments'
   }
 })
+@index({offerId: 1, createdAt: -1, _id: -1})
+@index({offerId: 1, userId: 1}, {unique: true})
 export class CommentEntity extends defaultClasses.TimeStamps {
   @prop({trim: true, required: true})
   public text!: string;
@@ -1,13 +1,22 @@
 import { inject, injectable } from 'inversify';
 import { DocumentType, types } from '@typegoose/typegoose';
+import { ClientSession } from 'mongoose';
 import { CommentServiceInterface } from './comment-service.interface.js';
 import { Component } from '../../types/component.types.js';
 import { CommentEntity } from './comment.entity.js';
 import CreateCommentDto from './dto/create-comment.dto.js';
+import CommentQueryDto from './dto/comment-query.dto.js';
+import UpdateCommentDto from './dto/update-comment.dto.js';
+import { ConfigInterface } from '../../common/config/config.interface.js';
+import { Paginated } from '../../types/paginated.type.js';
+import { SortType } from '../../types/sort-type.enum.js';
+import { createPage, getCursorFilter, getCursorSort } from '../../utils/pagination.js';
+import { COMMENT_SORT_FIELD } from './comment.constant.js';
 
 @injectable()
 export default class CommentService implements CommentServiceInterface {
   constructor(
+    @inject(Component.ConfigInterface) private readonly config: ConfigInterface,
     @inject(Component.CommentModel) private readonly commentModel: types.ModelType<CommentEntity>
   ) {}
 
@@ -16,17 +25,71 @@ export default class CommentService implements CommentServiceInterface {
     return comment.populate('userId');
   }
 
-  public async findByOfferId(offerId: string): Promise<DocumentType<CommentEntity>[]> {
+  public async findById(commentId: string): Promise<DocumentType<CommentEntity> | null> {
     return this.commentModel
-      .find({offerId})
-      .populate('userId');
+      .findById(commentId)
+      .populate('userId')
+      .exec();
+  }
+
+  public async updateAndFindPrevious(commentId: string, dto: UpdateCommentDto): Promise<DocumentType<CommentEntity> | null> {
+    // Only the fields a comment author may change: the body may carry anything besides them.
+    const update = {
+      ...(dto.text !== undefined && {text: dto.text}),
+      ...(dto.rating !== undefined && {rating: dto.rating}),
+    };
+
+    // The document as it was before the update, read in the same atomic operation.
+    return this.commentModel
+      .findOneAndUpdate({_id: commentId}, update, {new: false})
+      .exec();
+  }
+
+  public async deleteById(commentId: string): Promise<DocumentType<CommentEntity> | null> {
+    return this.commentModel
+      .findByIdAndDelete(commentId)
+      .exec();
   }
 
-  public async deleteByOfferId(offerId: string): Promise<number> {
+  public async findByOfferId(offerId: string, query: CommentQueryDto = {}): Promise<Paginated<DocumentType<CommentEntity>>> {
+    const limit = query.limit ?? this.config.get('COMMENT_PAGE_SIZE');
+    const filter = {offerId};
+    const pageFilter = query.cursor
+      ? {...filter, ...getCursorFilter<CommentEntity>(COMMENT_SORT_FIELD, SortType.Down, query.cursor)}
+      : filter;
+
+    const [comments, total] = await Promise.all([
+      this.commentModel
+        .find(pageFilter, {}, {limit: limit + 1})
+        .sort(getCursorSort(COMMENT_SORT_FIELD, SortType.Down))
+        .populate('userId')
+        .exec(),
+      this.commentModel
+        .countDocuments(filter)
+        .exec(),
+    ]);
+
+    return createPage(comments, limit, total, COMMENT_SORT_FIELD);
+  }
+
+  public async deleteByOfferId(offerId: string, session?: ClientSession): Promise<number> {
     const result = await this.commentModel
-      .deleteMany({offerId})
+      .deleteMany({offerId}, {session})
       .exec();
 
     return result.deletedCount;
   }
+
+  public async exists(documentId: string): Promise<boolean> {
+    return (await this.commentModel
+      .exists({_id: documentId})) !== null;
+  }
+
+  public async findOwnerId(documentId: string): Promise<string | null> {
+    const comment = await this.commentModel
+      .findById(documentId, {userId: 1})
+      .exec();
+
+    return comment ? String(comment.userId) : null;
+  }
 }
@@ -0,0 +1,19 @@
+import { Transform, Type } from 'class-transformer';
+import { IsInt, IsObject, IsOptional, Max, Min } from 'class-validator';
+import { Cursor } from '../../../types/cursor.type.js';
+import { transformQueryCursor } from '../../../utils/common.js';
+import { MAX_COMMENT_COUNT } from '../comment.constant.js';
+
+export default class CommentQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'limit must be an integer'})
+  @Min(1, {message: 'Minimum limit is 1'})
+  @Max(MAX_COMMENT_COUNT, {message: `Maximum limit is ${MAX_COMMENT_COUNT}`})
+  public limit?: number;
+
+  @IsOptional()
+  @Transform(transformQueryCursor)
+  @IsObject({message: 'cursor is invalid'})
+  public cursor?: Cursor;
+}
@@ -1,11 +1,10 @@
-import { IsMongoId, IsString, Length, IsNumber, Min, Max } from 'class-validator';
+import { IsString, Length, IsNumber, Min, Max } from 'class-validator';
 
 export default class CreateCommentDto {
   @IsString({message: 'text is required'})
   @Length(5, 1024, {message: 'Min length is 5, max is 1024'})
   public text!: string;
 
-  @IsMongoId({message: 'offerId field must be a valid id'})
   public offerId!: string;
 
   public userId!: string;
@@ -0,0 +1,14 @@
+import { IsOptional, IsString, Length, IsNumber, Min, Max } from 'class-validator';
+
+export default class UpdateCommentDto {
+  @IsOptional()
+  @IsString({message: 'text is required'})
+  @Length(5, 1024, {message: 'Min length is 5, max is 1024'})
+  public text?: string;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 1 }, { message: 'Only 1 digit precision to the right of decimal point is allowed' })
+  @Min(1, { message: 'Minimum rating is 1' })
+  @Max(5, { message: 'Maximum rating is 5' })
+  public rating?: number;
+}
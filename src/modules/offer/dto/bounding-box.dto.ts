@@ -0,0 +1,26 @@
+import { IsNumber, Max, Min } from 'class-validator';
+import { IsGreaterThanField } from '../../../common/decorators/field-relation.decorator.js';
+
+export default class BoundingBoxDto {
+  @IsNumber({}, {message: 'bbox west must be a number'})
+  @Min(-180, {message: 'Minimum bbox west is -180'})
+  @Max(180, {message: 'Maximum bbox west is 180'})
+  public west!: number;
+
+  @IsNumber({}, {message: 'bbox south must be a number'})
+  @Min(-90, {message: 'Minimum bbox south is -90'})
+  @Max(90, {message: 'Maximum bbox south is 90'})
+  public south!: number;
+
+  @IsNumber({}, {message: 'bbox east must be a number'})
+  @Min(-180, {message: 'Minimum bbox east is -180'})
+  @Max(180, {message: 'Maximum bbox east is 180'})
+  @IsGreaterThanField('west', {message: 'bbox east must be greater than west, boxes across the antimeridian are not supported'})
+  public east!: number;
+
+  @IsNumber({}, {message: 'bbox north must be a number'})
+  @Min(-90, {message: 'Minimum bbox north is -90'})
+  @Max(90, {message: 'Maximum bbox north is 90'})
+  @IsGreaterThanField('south', {message: 'bbox north must be greater than south'})
+  public north!: number;
+}
@@ -0,0 +1,13 @@
+import { IsNumber, Max, Min } from 'class-validator';
+
+export default class CoordinateDto {
+  @IsNumber({}, {message: 'latitude must be a number'})
+  @Min(-90, {message: 'Minimum latitude is -90'})
+  @Max(90, {message: 'Maximum latitude is 90'})
+  public latitude!: number;
+
+  @IsNumber({}, {message: 'longitude must be a number'})
+  @Min(-180, {message: 'Minimum longitude is -180'})
+  @Max(180, {message: 'Maximum longitude is 180'})
+  public longitude!: number;
+}
@@ -1,7 +1,8 @@
 import { OfferType } from '../../../types/offer-type.enum.js';
 import { OfferCity } from '../../../types/offer-city.enum.js';
 import { FacilitiesType } from '../../../types/offer-facilities.enum.js';
-import { Coordinate } from '../../../types/coordinate.type.js';
+import { Type } from 'class-transformer';
+import CoordinateDto from './coordinate.dto.js';
 import {
   IsArray,
   IsDateString,
@@ -12,8 +13,7 @@ import {
   Min,
   MinLength,
   IsBoolean,
-  IsObject,
-  IsNumber
+  ValidateNested
 } from 'class-validator';
 
 
@@ -35,14 +35,6 @@ export default class CreateOfferDto {
   @IsBoolean({message: 'IsPremium must be an boolean'})
   public isPremium!: boolean;
 
-  @IsBoolean({message: 'IsFavorites must be an boolean'})
-  public isFavorites!: boolean;
-
-  @IsNumber({ maxDecimalPlaces: 1 }, { message: 'Only 1 digit precision to the right of decimal point is allowed' })
-  @Min(1, {message: 'Minimum rating is 1'})
-  @Max(5, {message: 'Maximum rating is 5'})
-  public rating!: number;
-
   @IsEnum(OfferType, {message: '$property should be a value from OfferType'})
   public type!: OfferType;
 
@@ -70,6 +62,7 @@ export default class CreateOfferDto {
 
   public userId!: string;
 
-  @IsObject({message: 'coordinates must be an object'})
-  public coordinates!: Coordinate;
+  @ValidateNested()
+  @Type(() => CoordinateDto)
+  public coordinates!: CoordinateDto;
 }
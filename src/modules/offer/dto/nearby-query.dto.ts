@@ -0,0 +1,12 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { MAX_NEARBY_OFFER_COUNT } from '../offer.constant.js';
+
+export default class NearbyQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'limit must be an integer'})
+  @Min(1, {message: 'Minimum limit is 1'})
+  @Max(MAX_NEARBY_OFFER_COUNT, {message: `Maximum limit is ${MAX_NEARBY_OFFER_COUNT}`})
+  public limit?: number;
+}
@@ -0,0 +1,17 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { OfferSortType } from '../../../types/offer-sort-type.enum.js';
+import { MAX_OFFER_COUNT } from '../offer.constant.js';
+
+export default class OfferListQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'limit must be an integer'})
+  @Min(1, {message: 'Minimum limit is 1'})
+  @Max(MAX_OFFER_COUNT, {message: `Maximum limit is ${MAX_OFFER_COUNT}`})
+  public limit?: number;
+
+  @IsOptional()
+  @IsEnum(OfferSortType, {message: '$property should be a value from OfferSortType'})
+  public sort?: OfferSortType;
+}
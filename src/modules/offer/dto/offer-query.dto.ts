@@ -0,0 +1,125 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+  Max,
+  Min,
+} from 'class-validator';
+import { OfferCity } from '../../../types/offer-city.enum.js';
+import { OfferType } from '../../../types/offer-type.enum.js';
+import { FacilitiesType } from '../../../types/offer-facilities.enum.js';
+import { transformQueryArray, transformQueryBoolean, transformQueryCursor, transformQueryNumbers } from '../../../utils/common.js';
+import { Cursor } from '../../../types/cursor.type.js';
+import OfferListQueryDto from './offer-list-query.dto.js';
+import CoordinateDto from './coordinate.dto.js';
+import BoundingBoxDto from './bounding-box.dto.js';
+import { MAX_NEAR_RADIUS } from '../offer.constant.js';
+import { MAX_BOOKING_NIGHTS } from '../../booking/booking.constant.js';
+import { DAY_PATTERN } from '../../../utils/date.js';
+import { IsNotPastDay, IsStayEnd } from '../../../common/decorators/stay-range.decorator.js';
+import { IsNotLessThanField, RequiresField } from '../../../common/decorators/field-relation.decorator.js';
+
+const isStayRequested = ({checkIn, checkOut}: {checkIn?: string; checkOut?: string}) => checkIn !== undefined || checkOut !== undefined;
+
+export default class OfferQueryDto extends OfferListQueryDto {
+  @IsOptional()
+  @IsString({message: 'q must be a string'})
+  @MaxLength(100, {message: 'Maximum q length must be 100'})
+  public q?: string;
+
+  @IsOptional()
+  @IsEnum(OfferCity, {message: '$property should be a value from OfferCity'})
+  public city?: OfferCity;
+
+  @IsOptional()
+  @IsEnum(OfferType, {message: '$property should be a value from OfferType'})
+  public type?: OfferType;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'minPrice must be an integer'})
+  @Min(100, {message: 'Minimum price is 100'})
+  @Max(100000, {message: 'Maximum price is 100000'})
+  public minPrice?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'maxPrice must be an integer'})
+  @Min(100, {message: 'Minimum price is 100'})
+  @Max(100000, {message: 'Maximum price is 100000'})
+  @IsNotLessThanField('minPrice', {message: 'maxPrice must not be less than minPrice'})
+  public maxPrice?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'roomCount must be an integer'})
+  @Min(1, {message: 'Minimum roomCount is 1'})
+  @Max(8, {message: 'Maximum roomCount is 8'})
+  public roomCount?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'guestsCount must be an integer'})
+  @Min(1, {message: 'Minimum guestsCount is 1'})
+  @Max(10, {message: 'Maximum guestsCount is 10'})
+  public guestsCount?: number;
+
+  @IsOptional()
+  @Transform(transformQueryArray)
+  @IsArray({message: 'Field facilities must be an array'})
+  @IsEnum(FacilitiesType, {
+    each: true,
+    message: '$property should be a value from FacilitiesType'
+  })
+  public facilities?: FacilitiesType[];
+
+  @IsOptional()
+  @Transform(transformQueryBoolean)
+  @IsBoolean({message: 'isPremium must be an boolean'})
+  public isPremium?: boolean;
+
+  @IsOptional()
+  @Transform(transformQueryNumbers(CoordinateDto, ['latitude', 'longitude']))
+  @ValidateNested({message: 'near must be in the form lat,lng'})
+  public near?: CoordinateDto;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({message: 'radius must be an integer'})
+  @Min(1, {message: 'Minimum radius is 1 meter'})
+  @Max(MAX_NEAR_RADIUS, {message: `Maximum radius is ${MAX_NEAR_RADIUS} meters`})
+  @RequiresField('near', {message: 'radius requires near'})
+  public radius?: number;
+
+  @IsOptional()
+  @Transform(transformQueryNumbers(BoundingBoxDto, ['west', 'south', 'east', 'north']))
+  @ValidateNested({message: 'bbox must be in the form west,south,east,north'})
+  public bbox?: BoundingBoxDto;
+
+  @ValidateIf(isStayRequested)
+  @Matches(DAY_PATTERN, {message: 'checkIn must be a date in YYYY-MM-DD format'})
+  @IsDateString({strict: true}, {message: 'checkIn must be valid ISO date'})
+  @IsNotPastDay()
+  public checkIn?: string;
+
+  @ValidateIf(isStayRequested)
+  @Matches(DAY_PATTERN, {message: 'checkOut must be a date in YYYY-MM-DD format'})
+  @IsDateString({strict: true}, {message: 'checkOut must be valid ISO date'})
+  @IsStayEnd('checkIn', MAX_BOOKING_NIGHTS)
+  public checkOut?: string;
+
+  @IsOptional()
+  @Transform(transformQueryCursor)
+  @IsObject({message: 'cursor is invalid'})
+  public cursor?: Cursor;
+}
@@ -0,0 +1,11 @@
+import { ArrayMaxSize, ArrayNotEmpty, ArrayUnique, IsArray, IsString } from 'class-validator';
+import { IMAGES_OFFER_COUNT } from '../offer.constant.js';
+
+export default class ReorderOfferImagesDto {
+  @IsArray({message: 'Field offerImages must be an array'})
+  @ArrayNotEmpty({message: '$property must not be empty'})
+  @ArrayMaxSize(IMAGES_OFFER_COUNT, {message: '$property must contain at most $constraint1 items'})
+  @ArrayUnique({message: '$property must not contain duplicates'})
+  @IsString({each: true, message: 'offerImages must contain image names'})
+  public offerImages!: string[];
+}
@@ -1,6 +1,7 @@
 import { OfferType } from '../../../types/offer-type.enum.js';
 import { FacilitiesType } from '../../../types/offer-facilities.enum.js';
-import { Coordinate } from '../../../types/coordinate.type.js';
+import { Type } from 'class-transformer';
+import CoordinateDto from './coordinate.dto.js';
 import { OfferCity } from '../../../types/offer-city.enum.js';
 import {
   IsArray,
@@ -12,11 +13,10 @@ import {
   Min,
   MinLength,
   IsBoolean,
-  IsObject,
+  ValidateNested,
   IsString,
   ArrayMinSize,
-  ArrayMaxSize,
-  IsNumber
+  ArrayMaxSize
 } from 'class-validator';
 
 
@@ -48,14 +48,6 @@ export default class UpdateOfferDto {
   @IsBoolean({message: 'IsPremium must be an boolean'})
   public isPremium?: boolean;
 
-  @IsBoolean({message: 'IsFavorites must be an boolean'})
-  public isFavorites?: boolean;
-
-  @IsNumber({ maxDecimalPlaces: 1 }, { message: 'Only 1 digit precision to the right of decimal point is allowed' })
-  @Min(1, {message: 'Minimum rating is 1'})
-  @Max(8, {message: 'Maximum rating is 5'})
-  public rating?: number;
-
   @IsEnum(OfferType, {message: '$property should be a value from OfferType'})
   public type?: OfferType;
 
@@ -81,6 +73,7 @@ export default class UpdateOfferDto {
   })
   public facilities?: FacilitiesType[];
 
-  @IsObject({message: 'coordinates must be an object'})
-  public coordinates?: Coordinate;
+  @ValidateNested()
+  @Type(() => CoordinateDto)
+  public coordinates?: CoordinateDto;
 }
@@ -1,18 +1,39 @@
 import { DocumentType } from '@typegoose/typegoose';
+import { ClientSession } from 'mongoose';
 import { OfferEntity } from './offer.entity.js';
 import CreateOfferDto from './dto/create-offer.dto.js';
 import UpdateOfferDto from './dto/update-offer.dto.js';
 import { DocumentExistsInterface } from '../../types/document-exists.interface.js';
+import { DocumentOwnerInterface } from '../../types/document-owner.interface.js';
+import OfferQueryDto from './dto/offer-query.dto.js';
+import OfferListQueryDto from './dto/offer-list-query.dto.js';
+import { Paginated } from '../../types/paginated.type.js';
+import { NearbyOffer } from '../../types/nearby-offer.type.js';
+import { CoordinatesMigration } from '../../types/coordinates-migration.type.js';
 
-export interface OfferServiceInterface extends DocumentExistsInterface {
+export interface OfferServiceInterface extends DocumentExistsInterface, DocumentOwnerInterface {
   create(dto: CreateOfferDto): Promise<DocumentType<OfferEntity>>;
   findById(offerId: string): Promise<DocumentType<OfferEntity> | null>;
-  find(count?: number): Promise<DocumentType<OfferEntity>[]>;
-  findPremium(city: string, count?: number): Promise<DocumentType<OfferEntity>[]>;
-  findFavorite(): Promise<DocumentType<OfferEntity>[]>;
-  changeFavoriteStatus(offerId: string, isFavorites: string): Promise<DocumentType<OfferEntity> | null>;
-  deleteById(offerId: string): Promise<DocumentType<OfferEntity> | null>;
+  findMatchingIds(query?: OfferQueryDto): Promise<string[]>;
+  find(query?: OfferQueryDto, excludedIds?: string[]): Promise<Paginated<DocumentType<OfferEntity>>>;
+  findPremium(city: string, query?: OfferListQueryDto): Promise<DocumentType<OfferEntity>[]>;
+  findFavorite(offerIds: string[]): Promise<DocumentType<OfferEntity>[]>;
+  findNearby(offer: DocumentType<OfferEntity>, limit?: number): Promise<NearbyOffer[]>;
+  softDeleteById(offerId: string): Promise<DocumentType<OfferEntity> | null>;
+  restoreById(offerId: string, deletedAfter: Date): Promise<DocumentType<OfferEntity> | null>;
+  findDeletedBefore(date: Date): Promise<DocumentType<OfferEntity>[]>;
+  deleteById(offerId: string, deletedBefore: Date, session?: ClientSession): Promise<DocumentType<OfferEntity> | null>;
   updateById(offerId: string, dto: UpdateOfferDto): Promise<DocumentType<OfferEntity> | null>;
-  incCommentCount(offerId: string): Promise<DocumentType<OfferEntity> | null>;
+  addImages(offerId: string, images: string[]): Promise<DocumentType<OfferEntity> | null>;
+  removeImage(offerId: string, image: string): Promise<DocumentType<OfferEntity> | null>;
+  reorderImages(offerId: string, images: string[]): Promise<DocumentType<OfferEntity> | null>;
+  incCommentCount(offerId: string, rating: number): Promise<DocumentType<OfferEntity> | null>;
+  decCommentCount(offerId: string, rating: number): Promise<DocumentType<OfferEntity> | null>;
+  changeCommentRating(offerId: string, ratingDelta: number): Promise<DocumentType<OfferEntity> | null>;
+  findImageNames(): Promise<string[]>;
+  migrateCoordinates(): Promise<CoordinatesMigration>;
+  migrateLanguages(): Promise<number>;
+  recalculateRatings(): Promise<void>;
   exists(documentId: string): Promise<boolean>;
+  findOwnerId(documentId: string): Promise<string | null>;
 }
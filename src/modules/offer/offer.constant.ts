@@ -1,3 +1,19 @@
+import { OfferSortType } from '../../types/offer-sort-type.enum.js';
+import UpdateOfferDto from './dto/update-offer.dto.js';
+
 export const DEFAULT_OFFER_COUNT = 60;
+export const MAX_OFFER_COUNT = 100;
 export const DEFAULT_PREMIUM_OFFER_COUNT = 3;
 export const IMAGES_OFFER_COUNT = 6;
+export const DEFAULT_OFFER_SORT = OfferSortType.PostDateDown;
+export const RATING_PRECISION = 1;
+export const DEFAULT_NEAR_RADIUS = 5000;
+export const MAX_NEAR_RADIUS = 100000;
+export const DEFAULT_NEARBY_OFFER_COUNT = 3;
+export const MAX_NEARBY_OFFER_COUNT = 20;
+export const TEXT_SCORE_FIELD = 'score';
+// The request body may carry more than the DTO declares: only these fields ever reach an update.
+export const UPDATABLE_OFFER_FIELDS: (keyof UpdateOfferDto)[] = [
+  'title', 'description', 'postDate', 'city', 'previewImage', 'offerImages', 'isPremium',
+  'type', 'roomCount', 'guestsCount', 'price', 'facilities', 'coordinates'
+];
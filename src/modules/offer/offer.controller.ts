@@ -1,34 +1,73 @@
+import dayjs from 'dayjs';
 import { Request, Response } from 'express';
 import * as core from 'express-serve-static-core';
 import { StatusCodes } from 'http-status-codes';
 import { inject, injectable } from 'inversify';
+import { DocumentType } from '@typegoose/typegoose';
 import { Controller } from '../../common/controller/controller.js';
 import { LoggerInterface } from '../../common/logger/logger.interface.js';
 import { Component } from '../../types/component.types.js';
 import { HttpMethod } from '../../types/http-method.enum.js';
-import { fillDTO } from '../../utils/common.js';
+import { fillDTO, getRefId, getResourceName } from '../../utils/common.js';
 import { CommentServiceInterface } from '../comment/comment-service.interface.js';
 import CommentResponse from '../comment/response/comment.response.js';
+import CommentQueryDto from '../comment/dto/comment-query.dto.js';
+import CreateCommentDto from '../comment/dto/create-comment.dto.js';
+import { BookingServiceInterface } from '../booking/booking-service.interface.js';
+import BookingResponse from '../booking/response/booking.response.js';
+import BookingQueryDto from '../booking/dto/booking-query.dto.js';
+import CreateBookingDto from '../booking/dto/create-booking.dto.js';
+import CreateBlockDto from '../booking/dto/create-block.dto.js';
+import AvailabilityQueryDto from '../booking/dto/availability-query.dto.js';
+import BlockResponse from '../booking/response/block.response.js';
+import { toUTCDay } from '../../utils/date.js';
+import HttpError from '../../common/errors/http-error.js';
+import { isDuplicateKeyError } from '../../utils/db.js';
 import CreateOfferDto from './dto/create-offer.dto.js';
 import UpdateOfferDto from './dto/update-offer.dto.js';
+import ReorderOfferImagesDto from './dto/reorder-offer-images.dto.js';
+import OfferQueryDto from './dto/offer-query.dto.js';
+import OfferListQueryDto from './dto/offer-list-query.dto.js';
+import NearbyQueryDto from './dto/nearby-query.dto.js';
 import { OfferServiceInterface } from './offer-service.interface.js';
 import OfferResponse from './response/offer.response.js';
 import OffersResponse from './response/offers.response.js';
-import { RequestQuery } from '../../types/request-query.type.js';
 import { ValidateObjectIdMiddleware } from '../../common/middlewares/validate-objectid.middleware.js';
 import { ValidateDtoMiddleware } from '../../common/middlewares/validate-dto.middleware.js';
+import { ValidateQueryMiddleware } from '../../common/middlewares/validate-query.middleware.js';
 import { DocumentExistsMiddleware } from '../../common/middlewares/document-exists.middleware.js';
 import { PrivateRouteMiddleware } from '../../common/middlewares/private-route.middleware.js';
+import { CheckOwnerMiddleware } from '../../common/middlewares/check-owner.middleware.js';
+import { RequireRoleMiddleware } from '../../common/middlewares/require-role.middleware.js';
+import { UserType } from '../../types/user-type.enum.js';
+import { MODERATOR_ROLES } from '../user/user.constant.js';
 import { ConfigInterface } from '../../common/config/config.interface.js';
+import { StorageInterface } from '../../common/storage/storage.interface.js';
 import { UploadFileMiddleware } from '../../common/middlewares/upload-file.middleware.js';
 import UploadImageResponse from './response/upload-image.response.js';
 import { UploadFilesMiddleware } from '../../common/middlewares/upload-files.middleware.js';
 import UploadImagesResponse from './response/upload-images.response.js';
+import { UserServiceInterface } from '../user/user-service.interface.js';
+import { removeUploadedImage } from '../../utils/file.js';
+import { IMAGES_OFFER_COUNT } from './offer.constant.js';
+import { createHighlight, getSearchTerms } from '../../utils/search.js';
+import { SearchHighlight } from '../../types/search-highlight.type.js';
+import { OfferEntity } from './offer.entity.js';
 
 type ParamsGetOffer = {
   offerId: string;
 }
 
+type ParamsOfferImage = {
+  offerId: string;
+  imageName: string;
+}
+
+type ParamsOfferBlock = {
+  offerId: string;
+  blockId: string;
+}
+
 type ParamsGetPremium = {
   city: string;
 }
@@ -38,23 +77,37 @@ export default class OfferController extends Controller {
   constructor(
     @inject(Component.LoggerInterface) logger: LoggerInterface,
     @inject(Component.ConfigInterface) configService: ConfigInterface,
+    @inject(Component.StorageInterface) storage: StorageInterface,
     @inject(Component.OfferServiceInterface) private readonly offerService: OfferServiceInterface,
     @inject(Component.CommentServiceInterface) private readonly commentService: CommentServiceInterface,
+    @inject(Component.UserServiceInterface) private readonly userService: UserServiceInterface,
+    @inject(Component.BookingServiceInterface) private readonly bookingService: BookingServiceInterface,
   ) {
-    super(logger, configService);
+    super(logger, configService, storage);
 
     this.logger.info('Register routes for OfferController...');
-    this.addRoute({path: '/', method: HttpMethod.Get, handler: this.index});
+    this.addRoute({
+      path: '/',
+      method: HttpMethod.Get,
+      handler: this.index,
+      middlewares: [new ValidateQueryMiddleware(OfferQueryDto)]
+    });
     this.addRoute({
       path: '/',
       method: HttpMethod.Post,
       handler: this.create,
       middlewares: [
         new PrivateRouteMiddleware(),
+        new RequireRoleMiddleware([UserType.pro]),
         new ValidateDtoMiddleware(CreateOfferDto)
       ]
     });
-    this.addRoute({path: '/favorite', method: HttpMethod.Get, handler: this.findFavorite});
+    this.addRoute({
+      path: '/favorite',
+      method: HttpMethod.Get,
+      handler: this.findFavorite,
+      middlewares: [new PrivateRouteMiddleware()]
+    });
     this.addRoute({
       path: '/:offerId',
       method: HttpMethod.Get,
@@ -72,6 +125,17 @@ export default class OfferController extends Controller {
         new PrivateRouteMiddleware(),
         new ValidateObjectIdMiddleware('offerId'),
         new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId', MODERATOR_ROLES),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/restore',
+      method: HttpMethod.Post,
+      handler: this.restore,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
       ]
     });
     this.addRoute({
@@ -83,6 +147,17 @@ export default class OfferController extends Controller {
         new ValidateObjectIdMiddleware('offerId'),
         new ValidateDtoMiddleware(UpdateOfferDto),
         new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/nearby',
+      method: HttpMethod.Get,
+      handler: this.findNearby,
+      middlewares: [
+        new ValidateObjectIdMiddleware('offerId'),
+        new ValidateQueryMiddleware(NearbyQueryDto),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
       ]
     });
     this.addRoute({
@@ -91,7 +166,87 @@ export default class OfferController extends Controller {
       handler: this.getComments,
       middlewares: [
         new ValidateObjectIdMiddleware('offerId'),
+        new ValidateQueryMiddleware(CommentQueryDto),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/comments',
+      method: HttpMethod.Post,
+      handler: this.createComment,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new ValidateDtoMiddleware(CreateCommentDto),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/bookings',
+      method: HttpMethod.Get,
+      handler: this.getBookings,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new ValidateQueryMiddleware(BookingQueryDto),
         new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/bookings',
+      method: HttpMethod.Post,
+      handler: this.createBooking,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new ValidateDtoMiddleware(CreateBookingDto),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/availability',
+      method: HttpMethod.Get,
+      handler: this.getAvailability,
+      middlewares: [
+        new ValidateObjectIdMiddleware('offerId'),
+        new ValidateQueryMiddleware(AvailabilityQueryDto),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/blocks',
+      method: HttpMethod.Get,
+      handler: this.getBlocks,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/blocks',
+      method: HttpMethod.Post,
+      handler: this.createBlock,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new ValidateDtoMiddleware(CreateBlockDto),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/blocks/:blockId',
+      method: HttpMethod.Delete,
+      handler: this.deleteBlock,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new ValidateObjectIdMiddleware('blockId'),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
       ]
     });
     this.addRoute({
@@ -101,7 +256,13 @@ export default class OfferController extends Controller {
       middlewares: [
         new PrivateRouteMiddleware(),
         new ValidateObjectIdMiddleware('offerId'),
-        new UploadFileMiddleware(this.configService.get('UPLOAD_DIRECTORY'), 'image'),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
+        new UploadFileMiddleware(
+          this.storage,
+          'image',
+          this.configService.get('UPLOAD_MAX_FILE_SIZE')
+        ),
       ]
     });
     this.addRoute({
@@ -111,13 +272,44 @@ export default class OfferController extends Controller {
       middlewares: [
         new PrivateRouteMiddleware(),
         new ValidateObjectIdMiddleware('offerId'),
-        new UploadFilesMiddleware(this.configService.get('UPLOAD_DIRECTORY'), 'image'),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
+        new UploadFilesMiddleware(
+          this.storage,
+          'image',
+          this.configService.get('UPLOAD_MAX_FILE_SIZE'),
+          this.configService.get('UPLOAD_MAX_FILE_COUNT')
+        ),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/offerImages',
+      method: HttpMethod.Put,
+      handler: this.reorderImages,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new ValidateDtoMiddleware(ReorderOfferImagesDto),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
+      ]
+    });
+    this.addRoute({
+      path: '/:offerId/offerImages/:imageName',
+      method: HttpMethod.Delete,
+      handler: this.removeImage,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new ValidateObjectIdMiddleware('offerId'),
+        new DocumentExistsMiddleware(this.offerService, 'Offer', 'offerId'),
+        new CheckOwnerMiddleware(this.offerService, 'Offer', 'offerId'),
       ]
     });
     this.addRoute({
       path: '/premium/:city',
       method: HttpMethod.Get,
-      handler: this.findPremium
+      handler: this.findPremium,
+      middlewares: [new ValidateQueryMiddleware(OfferListQueryDto)]
     });
     this.addRoute({
       path: '/favorite/:offerId',
@@ -141,22 +333,68 @@ export default class OfferController extends Controller {
     });
   }
 
+  private async getFavoriteIds(user?: Request['user']): Promise<string[]> {
+    return user ? this.userService.findFavoriteIds(user.id) : [];
+  }
+
+  private async fillOfferResponse(offer: DocumentType<OfferEntity> | null, user?: Request['user']) {
+    const favoriteIds = await this.getFavoriteIds(user);
+    return Object.assign(fillDTO(OfferResponse, offer), {
+      isFavorite: offer ? favoriteIds.includes(offer.id) : false
+    });
+  }
+
+  private async fillOffersResponse(offers: DocumentType<OfferEntity>[], user?: Request['user']) {
+    const favoriteIds = await this.getFavoriteIds(user);
+    return offers.map((offer) => Object.assign(fillDTO(OffersResponse, offer), {
+      isFavorite: favoriteIds.includes(offer.id)
+    }));
+  }
+
   public async show(
-    {params}: Request<core.ParamsDictionary | ParamsGetOffer>,
+    {params, user}: Request<core.ParamsDictionary | ParamsGetOffer>,
     res: Response
   ): Promise<void> {
     const {offerId} = params;
     const offer = await this.offerService.findById(offerId);
 
-    this.ok(res, fillDTO(OfferResponse, offer));
+    this.ok(res, await this.fillOfferResponse(offer, user));
+  }
+
+  private async findBusyOfferIds({checkIn, checkOut, ...query}: OfferQueryDto): Promise<string[]> {
+    if (!checkIn || !checkOut) {
+      return [];
+    }
+
+    // Only offers that pass the other filters are checked, so the lookup does not scan every booking.
+    const candidateIds = await this.offerService.findMatchingIds(query);
+    return this.bookingService.findBusyOfferIds(candidateIds, toUTCDay(checkIn), toUTCDay(checkOut));
   }
 
   public async index(
-    {query}: Request<core.ParamsDictionary, unknown, unknown, RequestQuery>,
+    {query, user}: Request<core.ParamsDictionary, unknown, unknown, OfferQueryDto>,
     res: Response
   ): Promise<void> {
-    const offers = await this.offerService.find(query.limit);
-    this.ok(res, fillDTO(OffersResponse, offers));
+    const busyOfferIds = await this.findBusyOfferIds(query);
+    const {items, total, nextCursor} = await this.offerService.find(query, busyOfferIds);
+    const offersResponse = await this.fillOffersResponse(items, user);
+
+    if (query.q) {
+      const terms = getSearchTerms(query.q);
+      offersResponse.forEach((offerResponse, index) => {
+        const highlight: SearchHighlight = {
+          title: createHighlight(items[index].title, terms, Infinity),
+          description: createHighlight(items[index].description, terms)
+        };
+        Object.assign(offerResponse, {highlight});
+      });
+    }
+
+    this.ok(res, {
+      items: offersResponse,
+      total,
+      nextCursor
+    });
   }
 
   public async create(
@@ -166,7 +404,7 @@ export default class OfferController extends Controller {
     const {body, user} = req;
     const result = await this.offerService.create({...body, userId: user.id});
     const offer = await this.offerService.findById(result.id);
-    this.created(res, fillDTO(OfferResponse, offer));
+    this.created(res, await this.fillOfferResponse(offer, user), `${req.baseUrl}/${result.id}`);
   }
 
   public async delete(
@@ -174,62 +412,262 @@ export default class OfferController extends Controller {
     res: Response
   ): Promise<void> {
     const {offerId} = params;
-    const offer = await this.offerService.deleteById(offerId);
-    await this.commentService.deleteByOfferId(offerId);
 
-    this.noContent(res, offer);
+    // Guests keep their stays: a listing with current or upcoming bookings cannot disappear under them.
+    if (await this.bookingService.hasActiveReservations(offerId, toUTCDay(new Date()))) {
+      throw new HttpError(
+        StatusCodes.CONFLICT,
+        `Offer ${offerId} has current or upcoming bookings and cannot be deleted.`,
+        'OfferController'
+      );
+    }
+
+    await this.offerService.softDeleteById(offerId);
+    this.noContent(res);
+  }
+
+  public async restore(
+    {params, user}: Request<core.ParamsDictionary | ParamsGetOffer>,
+    res: Response
+  ): Promise<void> {
+    const {offerId} = params;
+    const retentionStart = dayjs().subtract(this.configService.get('OFFER_RETENTION_DAYS'), 'day').toDate();
+    const offer = await this.offerService.restoreById(offerId, retentionStart);
+
+    if (!offer) {
+      throw new HttpError(
+        StatusCodes.NOT_FOUND,
+        `Deleted offer with ${offerId} not found or can no longer be restored.`,
+        'OfferController'
+      );
+    }
+
+    this.ok(res, await this.fillOfferResponse(offer, user));
   }
 
   public async update(
-    {body, params}: Request<core.ParamsDictionary | ParamsGetOffer, Record<string, unknown>, UpdateOfferDto>,
+    {body, params, user}: Request<core.ParamsDictionary | ParamsGetOffer, Record<string, unknown>, UpdateOfferDto>,
     res: Response
   ): Promise<void> {
     const updatedOffer = await this.offerService.updateById(params.offerId, body);
 
-    this.ok(res, fillDTO(OfferResponse, updatedOffer));
+    this.ok(res, await this.fillOfferResponse(updatedOffer, user));
   }
 
   public async setStatusIsFavorite(
-    {params}: Request<core.ParamsDictionary | ParamsGetOffer, object, object>,
+    {params, user}: Request<core.ParamsDictionary | ParamsGetOffer, object, object>,
     res: Response
   ): Promise<void> {
-    const updatedOffer = await this.offerService.updateById(params.offerId, {isFavorites: true});
+    const {offerId} = params;
+    await this.userService.addToFavorites(user.id, offerId);
+    const offer = await this.offerService.findById(offerId);
 
-    this.ok(res, fillDTO(OfferResponse, updatedOffer));
+    this.ok(res, await this.fillOfferResponse(offer, user));
   }
 
   public async setStatusIsNotFavorite(
-    {params}: Request<core.ParamsDictionary | ParamsGetOffer, object, object>,
+    {params, user}: Request<core.ParamsDictionary | ParamsGetOffer, object, object>,
     res: Response
   ): Promise<void> {
-    const updatedOffer = await this.offerService.updateById(params.offerId, {isFavorites: false});
+    const {offerId} = params;
+    await this.userService.removeFromFavorites(user.id, offerId);
+    const offer = await this.offerService.findById(offerId);
 
-    this.ok(res, fillDTO(OfferResponse, updatedOffer));
+    this.ok(res, await this.fillOfferResponse(offer, user));
   }
 
   public async getComments(
-    {params}: Request<core.ParamsDictionary | ParamsGetOffer, object, object>,
+    {params, query}: Request<core.ParamsDictionary | ParamsGetOffer, object, object, CommentQueryDto>,
+    res: Response
+  ): Promise<void> {
+    const {items, total, nextCursor} = await this.commentService.findByOfferId(params.offerId, query);
+    this.ok(res, {
+      items: fillDTO(CommentResponse, items),
+      total,
+      nextCursor
+    });
+  }
+
+  public async createComment(
+    {body, params, user}: Request<core.ParamsDictionary | ParamsGetOffer, Record<string, unknown>, CreateCommentDto>,
+    res: Response
+  ): Promise<void> {
+    const {offerId} = params;
+    const comment = await this.commentService
+      .create({...body, offerId, userId: user.id})
+      .catch((error) => {
+        if (isDuplicateKeyError(error)) {
+          throw new HttpError(
+            StatusCodes.CONFLICT,
+            `User has already reviewed offer ${offerId}.`,
+            'OfferController'
+          );
+        }
+
+        throw error;
+      });
+
+    await this.offerService.incCommentCount(offerId, body.rating);
+    this.created(res, fillDTO(CommentResponse, comment), `/comments/${comment.id}`);
+  }
+
+  public async getBookings(
+    {params, query}: Request<core.ParamsDictionary | ParamsGetOffer, object, object, BookingQueryDto>,
+    res: Response
+  ): Promise<void> {
+    const {items, total, nextCursor} = await this.bookingService.findByOfferId(params.offerId, query);
+    this.ok(res, {
+      items: fillDTO(BookingResponse, items),
+      total,
+      nextCursor
+    });
+  }
+
+  public async createBooking(
+    {body, params, user}: Request<core.ParamsDictionary | ParamsGetOffer, Record<string, unknown>, CreateBookingDto>,
+    res: Response
+  ): Promise<void> {
+    const {offerId} = params;
+    const offer = await this.offerService.findById(offerId);
+
+    if (!offer) {
+      throw new HttpError(
+        StatusCodes.NOT_FOUND,
+        `Offer with ${offerId} not found.`,
+        'OfferController'
+      );
+    }
+
+    if (getRefId(offer.userId) === user.id) {
+      throw new HttpError(
+        StatusCodes.BAD_REQUEST,
+        `Host cannot book own offer ${offerId}.`,
+        'OfferController'
+      );
+    }
+
+    if (body.guestsCount > offer.guestsCount) {
+      throw new HttpError(
+        StatusCodes.BAD_REQUEST,
+        `Offer ${offerId} accommodates at most ${offer.guestsCount} guests.`,
+        'OfferController'
+      );
+    }
+
+    const booking = await this.bookingService
+      .create({...body, offerId, userId: user.id})
+      .catch((error) => {
+        if (isDuplicateKeyError(error)) {
+          throw new HttpError(
+            StatusCodes.CONFLICT,
+            `Offer ${offerId} is not available for some of the requested nights.`,
+            'OfferController'
+          );
+        }
+
+        throw error;
+      });
+
+    this.created(res, fillDTO(BookingResponse, booking), `/bookings/${booking.id}`);
+  }
+
+  public async getAvailability(
+    {params, query}: Request<core.ParamsDictionary | ParamsGetOffer, object, object, AvailabilityQueryDto>,
+    res: Response
+  ): Promise<void> {
+    // Both days are required by AvailabilityQueryDto; they are typed optional only to fit the express query type.
+    const from = String(query.from);
+    const to = String(query.to);
+    const days = await this.bookingService.getAvailability(params.offerId, toUTCDay(from), toUTCDay(to));
+    this.ok(res, {from, to, days});
+  }
+
+  public async getBlocks(
+    {params}: Request<core.ParamsDictionary | ParamsGetOffer>,
+    res: Response
+  ): Promise<void> {
+    const blocks = await this.bookingService.findBlocks(params.offerId);
+    this.ok(res, fillDTO(BlockResponse, blocks));
+  }
+
+  public async createBlock(
+    {body, params, user}: Request<core.ParamsDictionary | ParamsGetOffer, Record<string, unknown>, CreateBlockDto>,
+    res: Response
+  ): Promise<void> {
+    const {offerId} = params;
+    const block = await this.bookingService
+      .createBlock({...body, offerId, userId: user.id})
+      .catch((error) => {
+        if (isDuplicateKeyError(error)) {
+          throw new HttpError(
+            StatusCodes.CONFLICT,
+            `Offer ${offerId} is already booked or blocked for some of the requested nights.`,
+            'OfferController'
+          );
+        }
+
+        throw error;
+      });
+
+    this.created(res, fillDTO(BlockResponse, block));
+  }
+
+  public async deleteBlock(
+    {params}: Request<core.ParamsDictionary | ParamsOfferBlock>,
     res: Response
   ): Promise<void> {
-    const comments = await this.commentService.findByOfferId(params.offerId);
-    this.ok(res, fillDTO(CommentResponse, comments));
+    const {offerId, blockId} = params;
+    const block = await this.bookingService.deleteBlock(offerId, blockId);
+
+    if (!block) {
+      throw new HttpError(
+        StatusCodes.NOT_FOUND,
+        `Block with ${blockId} not found in offer ${offerId}.`,
+        'OfferController'
+      );
+    }
+
+    this.noContent(res);
   }
 
   public async findPremium(
-    {params, query}: Request<core.ParamsDictionary | ParamsGetPremium, unknown, unknown, RequestQuery>,
+    {params, query, user}: Request<core.ParamsDictionary | ParamsGetPremium, unknown, unknown, OfferListQueryDto>,
     res: Response
   ): Promise<void> {
-    const offers = await this.offerService.findPremium(params.city, query.limit);
-    const offersResponse = fillDTO(OffersResponse, offers);
+    const offers = await this.offerService.findPremium(params.city, query);
+    const offersResponse = await this.fillOffersResponse(offers, user);
     this.send(res, StatusCodes.OK, offersResponse);
   }
 
+  public async findNearby(
+    {params, query, user}: Request<core.ParamsDictionary | ParamsGetOffer, unknown, unknown, NearbyQueryDto>,
+    res: Response
+  ): Promise<void> {
+    const offer = await this.offerService.findById(params.offerId);
+
+    if (!offer) {
+      throw new HttpError(
+        StatusCodes.NOT_FOUND,
+        `Offer with ${params.offerId} not found.`,
+        'OfferController'
+      );
+    }
+
+    const nearbyOffers = await this.offerService.findNearby(offer, query.limit);
+    const offersResponse = await this.fillOffersResponse(nearbyOffers.map((item) => item.offer), user);
+
+    this.ok(res, offersResponse.map((offerResponse, index) => Object.assign(offerResponse, {
+      distance: Math.round(nearbyOffers[index].distance)
+    })));
+  }
+
   public async findFavorite(
-    _req: Request,
+    {user}: Request,
     res: Response
   ): Promise<void> {
-    const offers = await this.offerService.findFavorite();
-    const offersResponse = fillDTO(OffersResponse, offers);
+    const favoriteIds = await this.userService.findFavoriteIds(user.id);
+    const offers = await this.offerService.findFavorite(favoriteIds);
+    const offersResponse = await this.fillOffersResponse(offers, user);
     this.send(res, StatusCodes.OK, offersResponse);
   }
 
@@ -237,7 +675,7 @@ export default class OfferController extends Controller {
     const {offerId} = req.params;
     const updateDto = { previewImage: req.file?.filename };
     await this.offerService.updateById(offerId, updateDto);
-    this.created(res, fillDTO(UploadImageResponse, {updateDto}));
+    this.created(res, fillDTO(UploadImageResponse, updateDto));
   }
 
   public async uploadImages(req: Request<core.ParamsDictionary | ParamsGetOffer>, res: Response) {
@@ -245,9 +683,50 @@ export default class OfferController extends Controller {
     const fileArray = req.files as Array<Express.Multer.File>;
     const fileNames = fileArray.map((file) => file.filename);
 
-    const updateDto = { offerImages: fileNames};
+    const offer = await this.offerService.addImages(offerId, fileNames);
 
-    await this.offerService.updateById(offerId, updateDto);
-    this.created(res, fillDTO(UploadImagesResponse, updateDto));
+    if (!offer) {
+      await Promise.all(fileNames.map((fileName) => removeUploadedImage(this.storage, fileName)));
+      throw new HttpError(
+        StatusCodes.BAD_REQUEST,
+        `Offer gallery can hold at most ${IMAGES_OFFER_COUNT} images.`,
+        'OfferController'
+      );
+    }
+
+    this.created(res, fillDTO(UploadImagesResponse, offer));
+  }
+
+  public async reorderImages(
+    {params, body}: Request<core.ParamsDictionary | ParamsGetOffer, Record<string, unknown>, ReorderOfferImagesDto>,
+    res: Response
+  ) {
+    const offer = await this.offerService.reorderImages(params.offerId, body.offerImages.map(getResourceName));
+
+    if (!offer) {
+      throw new HttpError(
+        StatusCodes.BAD_REQUEST,
+        'offerImages must list every image of the gallery exactly once.',
+        'OfferController'
+      );
+    }
+
+    this.ok(res, fillDTO(UploadImagesResponse, offer));
+  }
+
+  public async removeImage(req: Request<core.ParamsDictionary | ParamsOfferImage>, res: Response) {
+    const {offerId, imageName} = req.params;
+    const offer = await this.offerService.removeImage(offerId, imageName);
+
+    if (!offer) {
+      throw new HttpError(
+        StatusCodes.NOT_FOUND,
+        `Image ${imageName} not found in offer ${offerId} gallery.`,
+        'OfferController'
+      );
+    }
+
+    await removeUploadedImage(this.storage, imageName);
+    this.noContent(res);
   }
 }
@@ -2,18 +2,42 @@ import typegoose, { defaultClasses, getModelForClass, Ref } from '@typegoose/typ
 import { OfferType } from '../../types/offer-type.enum.js';
 import { UserEntity } from '../user/user.entity.js';
 import { FacilitiesType } from '../../types/offer-facilities.enum.js';
-import { Coordinate } from '../../types/coordinate.type.js';
 import { OfferCity } from '../../types/offer-city.enum.js';
+import { SearchLanguage } from '../../types/search-language.enum.js';
 
-const { prop, modelOptions } = typegoose;
+const { prop, modelOptions, index } = typegoose;
 
 export interface OfferEntity extends defaultClasses.Base {}
 
+@modelOptions({
+  schemaOptions: {
+    _id: false
+  }
+})
+export class GeoPointEntity {
+  @prop({type: () => String, enum: ['Point'], default: 'Point', required: true})
+  public type!: 'Point';
+
+  @prop({type: () => [Number], required: true})
+  public coordinates!: [longitude: number, latitude: number];
+}
+
 @modelOptions({
   schemaOptions: {
     collection: 'offers'
   }
 })
+@index({city: 1, type: 1, price: 1})
+@index({postDate: -1})
+@index({rating: -1})
+@index({city: 1, isPremium: 1})
+@index({facilities: 1})
+@index({deletedAt: 1})
+@index({coordinates: '2dsphere'})
+@index(
+  {title: 'text', description: 'text'},
+  {weights: {title: 3, description: 1}, 'default_language': SearchLanguage.English, 'language_override': 'language'}
+)
 export class OfferEntity extends defaultClasses.TimeStamps {
   @prop({trim: true, required: true})
   public title!: string;
@@ -21,6 +45,9 @@ export class OfferEntity extends defaultClasses.TimeStamps {
   @prop({trim: true, required: true})
   public description!: string;
 
+  @prop({type: () => String, enum: SearchLanguage, default: SearchLanguage.English})
+  public language!: SearchLanguage;
+
   @prop({required: true})
   public postDate!: Date;
 
@@ -39,12 +66,12 @@ export class OfferEntity extends defaultClasses.TimeStamps {
   @prop()
   public isPremium!: boolean;
 
-  @prop()
-  public isFavorites!: boolean;
-
-  @prop()
+  @prop({default: 0})
   public rating!: number;
 
+  @prop({default: 0})
+  public ratingSum!: number;
+
   @prop({
     type: () => String,
     enum: OfferType
@@ -75,8 +102,11 @@ export class OfferEntity extends defaultClasses.TimeStamps {
   @prop({default: 0})
   public commentCount!: number;
 
-  @prop()
-  public coordinates!: Coordinate;
+  @prop({type: () => GeoPointEntity, required: true})
+  public coordinates!: GeoPointEntity;
+
+  @prop({type: () => Date, default: null})
+  public deletedAt!: Date | null;
 }
 
 export const OfferModel = getModelForClass(OfferEntity);
@@ -1,4 +1,5 @@
 import { inject, injectable } from 'inversify';
+import { ClientSession, FilterQuery, PipelineStage, Types } from 'mongoose';
 import { OfferServiceInterface } from './offer-service.interface.js';
 import CreateOfferDto from './dto/create-offer.dto.js';
 import { DocumentType, types } from '@typegoose/typegoose';
@@ -6,8 +7,29 @@ import { OfferEntity } from './offer.entity.js';
 import { Component } from '../../types/component.types.js';
 import { LoggerInterface } from '../../common/logger/logger.interface.js';
 import UpdateOfferDto from './dto/update-offer.dto.js';
-import { DEFAULT_OFFER_COUNT, DEFAULT_PREMIUM_OFFER_COUNT } from './offer.constant.js';
+import {
+  DEFAULT_NEAR_RADIUS,
+  DEFAULT_NEARBY_OFFER_COUNT,
+  DEFAULT_OFFER_COUNT,
+  DEFAULT_OFFER_SORT,
+  DEFAULT_PREMIUM_OFFER_COUNT,
+  IMAGES_OFFER_COUNT,
+  RATING_PRECISION,
+  TEXT_SCORE_FIELD,
+  UPDATABLE_OFFER_FIELDS
+} from './offer.constant.js';
 import { SortType } from '../../types/sort-type.enum.js';
+import OfferQueryDto from './dto/offer-query.dto.js';
+import OfferListQueryDto from './dto/offer-list-query.dto.js';
+import { OfferSortType } from '../../types/offer-sort-type.enum.js';
+import { Paginated } from '../../types/paginated.type.js';
+import { createPage, getCursorFilter, getCursorSort } from '../../utils/pagination.js';
+import { getBoundingBoxGeometry, getCircleGeometry, toGeoPoint } from '../../utils/geo.js';
+import { NearbyOffer } from '../../types/nearby-offer.type.js';
+import { Cursor } from '../../types/cursor.type.js';
+import { CoordinatesMigration } from '../../types/coordinates-migration.type.js';
+import { detectSearchLanguage } from '../../utils/search.js';
+import { SearchLanguage } from '../../types/search-language.enum.js';
 
 @injectable()
 export default class OfferService implements OfferServiceInterface {
@@ -17,7 +39,14 @@ export default class OfferService implements OfferServiceInterface {
   ) {}
 
   public async create(dto: CreateOfferDto): Promise<DocumentType<OfferEntity>> {
-    const result = await this.offerModel.create(dto);
+    const result = await this.offerModel.create({
+      ...dto,
+      coordinates: toGeoPoint(dto.coordinates),
+      language: detectSearchLanguage(`${dto.title} ${dto.description}`),
+      rating: 0,
+      ratingSum: 0,
+      commentCount: 0
+    });
     this.logger.info(`New offer created: ${dto.title}`);
 
     return result;
@@ -25,63 +54,417 @@ export default class OfferService implements OfferServiceInterface {
 
   public async findById(offerId: string): Promise<DocumentType<OfferEntity> | null> {
     return this.offerModel
-      .findById(offerId)
+      .findOne({_id: offerId, deletedAt: null})
       .populate(['userId'])
       .exec();
   }
 
-  public async find(count?: number): Promise<DocumentType<OfferEntity>[]> {
-    const limit = count ?? DEFAULT_OFFER_COUNT;
+  private buildFilter(query: OfferQueryDto): FilterQuery<OfferEntity> {
+    const {q, city, type, minPrice, maxPrice, roomCount, guestsCount, facilities, isPremium, near, radius, bbox} = query;
+    const filter: FilterQuery<OfferEntity> = {deletedAt: null};
+
+    if (q) {
+      filter['$text'] = {'$search': q, '$language': detectSearchLanguage(q)};
+    }
+
+    if (city) {
+      filter.city = city;
+    }
+
+    if (type) {
+      filter.type = type;
+    }
+
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      filter.price = {
+        ...(minPrice !== undefined && {'$gte': minPrice}),
+        ...(maxPrice !== undefined && {'$lte': maxPrice}),
+      };
+    }
+
+    if (roomCount !== undefined) {
+      filter.roomCount = {'$gte': roomCount};
+    }
+
+    if (guestsCount !== undefined) {
+      filter.guestsCount = {'$gte': guestsCount};
+    }
+
+    if (facilities?.length) {
+      filter.facilities = {'$all': facilities};
+    }
+
+    if (isPremium !== undefined) {
+      filter.isPremium = isPremium;
+    }
+
+    const geoFilters: FilterQuery<OfferEntity>[] = [];
+
+    if (near) {
+      geoFilters.push({coordinates: {'$geoWithin': getCircleGeometry(near, radius ?? DEFAULT_NEAR_RADIUS)}});
+    }
+
+    if (bbox) {
+      geoFilters.push({coordinates: {'$geoWithin': getBoundingBoxGeometry(bbox)}});
+    }
+
+    if (geoFilters.length) {
+      filter['$and'] = geoFilters;
+    }
+
+    return filter;
+  }
+
+  private parseSort(sort: OfferSortType = DEFAULT_OFFER_SORT): [string, SortType] {
+    return sort.startsWith('-')
+      ? [sort.slice(1), SortType.Down]
+      : [sort, SortType.Up];
+  }
+
+  private async findByRelevance(
+    filter: FilterQuery<OfferEntity>,
+    limit: number,
+    cursor?: Cursor
+  ): Promise<Paginated<DocumentType<OfferEntity>>> {
+    // Aggregation does not cast values, so the cursor id is converted by hand.
+    const pageStages: PipelineStage[] = cursor
+      ? [{'$match': getCursorFilter<OfferEntity>(TEXT_SCORE_FIELD, SortType.Down, {...cursor, id: new Types.ObjectId(cursor.id)})}]
+      : [];
+
+    const [documents, total] = await Promise.all([
+      this.offerModel
+        .aggregate([
+          {'$match': filter},
+          {'$addFields': {[TEXT_SCORE_FIELD]: {'$meta': 'textScore'}}},
+          ...pageStages,
+          {'$sort': getCursorSort(TEXT_SCORE_FIELD, SortType.Down)},
+          {'$limit': limit + 1}
+        ])
+        .exec(),
+      this.offerModel
+        .countDocuments(filter)
+        .exec(),
+    ]);
+
+    const offers = await this.offerModel.populate(
+      documents.map((document) => this.offerModel.hydrate(document)),
+      {path: 'userId'}
+    );
+
+    return createPage(offers, limit, total, TEXT_SCORE_FIELD);
+  }
+
+  public async findMatchingIds(query: OfferQueryDto = {}): Promise<string[]> {
+    const offerIds = await this.offerModel
+      .distinct('_id', this.buildFilter(query))
+      .exec();
+
+    return offerIds.map(String);
+  }
+
+  public async find(query: OfferQueryDto = {}, excludedIds: string[] = []): Promise<Paginated<DocumentType<OfferEntity>>> {
+    const limit = query.limit ?? DEFAULT_OFFER_COUNT;
+    const filter = this.buildFilter(query);
+
+    if (excludedIds.length) {
+      // Ids are cast by hand so the filter also matches inside the relevance aggregation.
+      filter._id = {'$nin': excludedIds.map((offerId) => new Types.ObjectId(offerId))};
+    }
+
+    if (query.q && !query.sort) {
+      return this.findByRelevance(filter, limit, query.cursor);
+    }
+
+    const [sortField, sortType] = this.parseSort(query.sort);
+    const pageFilter = query.cursor
+      ? {'$and': [filter, getCursorFilter<OfferEntity>(sortField, sortType, query.cursor)]}
+      : filter;
+
+    const [offers, total] = await Promise.all([
+      this.offerModel
+        .find(pageFilter, {}, {limit: limit + 1})
+        .sort(getCursorSort(sortField, sortType))
+        .populate(['userId'])
+        .exec(),
+      this.offerModel
+        .countDocuments(filter)
+        .exec(),
+    ]);
+
+    return createPage(offers, limit, total, sortField);
+  }
+
+  public async findPremium(city: string, query: OfferListQueryDto = {}): Promise<DocumentType<OfferEntity>[]> {
+    const limit = query.limit ?? DEFAULT_PREMIUM_OFFER_COUNT;
     return this.offerModel
-      .find({}, {}, {limit})
-      .sort({postDate: SortType.Down})
+      .find({city: city, isPremium: true, deletedAt: null}, {}, {limit})
+      .sort(getCursorSort(...this.parseSort(query.sort)))
       .populate(['userId'])
       .exec();
   }
 
-  public async findPremium(city: string, count?: number): Promise<DocumentType<OfferEntity>[]> {
-    const limit = count ?? DEFAULT_PREMIUM_OFFER_COUNT;
+  public async findNearby(offer: DocumentType<OfferEntity>, limit = DEFAULT_NEARBY_OFFER_COUNT): Promise<NearbyOffer[]> {
+    const distances = await this.offerModel
+      .aggregate<{_id: Types.ObjectId, distance: number}>([
+        {'$geoNear': {
+          near: offer.coordinates,
+          key: 'coordinates',
+          distanceField: 'distance',
+          spherical: true,
+          query: {city: offer.city, deletedAt: null, _id: {'$ne': offer._id}}
+        }},
+        {'$limit': limit},
+        {'$project': {_id: 1, distance: 1}}
+      ])
+      .exec();
+
+    const offers = await this.offerModel
+      .find({_id: {'$in': distances.map(({_id}) => _id)}})
+      .populate(['userId'])
+      .exec();
+
+    return distances
+      .map(({_id, distance}) => ({offer: offers.find((item) => item._id.equals(_id)), distance}))
+      .filter((item): item is NearbyOffer => item.offer !== undefined);
+  }
+
+  public async findFavorite(offerIds: string[]): Promise<DocumentType<OfferEntity>[]> {
     return this.offerModel
-      .find({city: city, isPremium: true}, {}, {limit})
+      .find({_id: {'$in': offerIds}, deletedAt: null})
       .sort({postDate: SortType.Down})
       .populate(['userId'])
       .exec();
   }
 
-  public async findFavorite(): Promise<DocumentType<OfferEntity>[]> {
+  public async softDeleteById(offerId: string): Promise<DocumentType<OfferEntity> | null> {
+    return this.offerModel
+      .findOneAndUpdate({_id: offerId, deletedAt: null}, {deletedAt: new Date()}, {new: true})
+      .exec();
+  }
+
+  public async restoreById(offerId: string, deletedAfter: Date): Promise<DocumentType<OfferEntity> | null> {
     return this.offerModel
-      .find({isFavorites: true}, {}, {})
+      .findOneAndUpdate({_id: offerId, deletedAt: {'$gt': deletedAfter}}, {deletedAt: null}, {new: true})
       .populate(['userId'])
       .exec();
   }
 
-  public async changeFavoriteStatus(offerId: string, isFavorites: string): Promise<DocumentType<OfferEntity> | null> {
+  public async findDeletedBefore(date: Date): Promise<DocumentType<OfferEntity>[]> {
     return this.offerModel
-      .findByIdAndUpdate(offerId, {'$set': {isFavorites}}).exec();
+      .find({deletedAt: {'$ne': null, '$lte': date}})
+      .exec();
   }
 
-  public async deleteById(offerId: string): Promise<DocumentType<OfferEntity> | null> {
+  public async deleteById(offerId: string, deletedBefore: Date, session?: ClientSession): Promise<DocumentType<OfferEntity> | null> {
+    // An offer restored since it was listed for purging no longer matches and stays untouched.
     return this.offerModel
-      .findByIdAndDelete(offerId)
+      .findOneAndDelete({_id: offerId, deletedAt: {'$ne': null, '$lte': deletedBefore}}, {session})
       .exec();
   }
 
+  private async detectUpdatedLanguage(offerId: string, {title, description}: UpdateOfferDto): Promise<SearchLanguage | undefined> {
+    if (title === undefined && description === undefined) {
+      return undefined;
+    }
+
+    // A partial update is detected together with the stored half, otherwise a new title alone decides the language.
+    const stored = title === undefined || description === undefined
+      ? await this.offerModel.findById(offerId, {title: 1, description: 1}).exec()
+      : null;
+
+    return detectSearchLanguage(`${title ?? stored?.title ?? ''} ${description ?? stored?.description ?? ''}`);
+  }
+
   public async updateById(offerId: string, dto: UpdateOfferDto): Promise<DocumentType<OfferEntity> | null> {
+    const language = await this.detectUpdatedLanguage(offerId, dto);
+    const fields = Object.fromEntries(
+      UPDATABLE_OFFER_FIELDS
+        .filter((field) => dto[field] !== undefined)
+        .map((field) => [field, dto[field]])
+    );
+    const update = {
+      ...fields,
+      ...(dto.coordinates && {coordinates: toGeoPoint(dto.coordinates)}),
+      ...(language && {language}),
+    };
+
     return this.offerModel
-      .findByIdAndUpdate(offerId, dto, {new: true})
+      .findOneAndUpdate({_id: offerId, deletedAt: null}, update, {new: true})
       .populate(['userId'])
       .exec();
   }
 
+  public async addImages(offerId: string, images: string[]): Promise<DocumentType<OfferEntity> | null> {
+    // The gallery has room only while the element at position (limit - images.length) is missing.
+    const lastFreeIndex = IMAGES_OFFER_COUNT - images.length;
+
+    if (lastFreeIndex < 0) {
+      return null;
+    }
+
+    return this.offerModel
+      .findOneAndUpdate(
+        {_id: offerId, deletedAt: null, [`offerImages.${lastFreeIndex}`]: {$exists: false}},
+        {$push: {offerImages: {$each: images}}},
+        {new: true}
+      )
+      .exec();
+  }
+
+  public async removeImage(offerId: string, image: string): Promise<DocumentType<OfferEntity> | null> {
+    return this.offerModel
+      .findOneAndUpdate(
+        {_id: offerId, deletedAt: null, offerImages: image},
+        {$pull: {offerImages: image}},
+        {new: true}
+      )
+      .exec();
+  }
+
+  public async reorderImages(offerId: string, images: string[]): Promise<DocumentType<OfferEntity> | null> {
+    return this.offerModel
+      .findOneAndUpdate(
+        {_id: offerId, deletedAt: null, offerImages: {$size: images.length, $all: images}},
+        {$set: {offerImages: images}},
+        {new: true}
+      )
+      .exec();
+  }
+
   public async exists(documentId: string): Promise<boolean> {
     return (await this.offerModel
-      .exists({_id: documentId})) !== null;
+      .exists({_id: documentId, deletedAt: null})) !== null;
+  }
+
+  public async findOwnerId(documentId: string): Promise<string | null> {
+    const offer = await this.offerModel
+      .findById(documentId, {userId: 1})
+      .exec();
+
+    return offer ? String(offer.userId) : null;
   }
 
-  public async incCommentCount(offerId: string): Promise<DocumentType<OfferEntity> | null> {
+  private getRatingExpression() {
+    return {
+      '$cond': [
+        {'$gt': ['$commentCount', 0]},
+        {'$round': [{'$divide': ['$ratingSum', '$commentCount']}, RATING_PRECISION]},
+        0
+      ]
+    };
+  }
+
+  private async updateCommentStats(offerId: string, countDelta: number, ratingDelta: number): Promise<DocumentType<OfferEntity> | null> {
     return this.offerModel
-      .findByIdAndUpdate(offerId, {'$inc': {
-        commentCount: 1,
-      }}).exec();
+      .findByIdAndUpdate(offerId, [
+        {'$set': {
+          commentCount: {'$max': [{'$add': ['$commentCount', countDelta]}, 0]},
+          ratingSum: {'$add': [{'$ifNull': ['$ratingSum', 0]}, ratingDelta]},
+        }},
+        {'$set': {rating: this.getRatingExpression()}},
+      ], {new: true})
+      .exec();
+  }
+
+  public async incCommentCount(offerId: string, rating: number): Promise<DocumentType<OfferEntity> | null> {
+    return this.updateCommentStats(offerId, 1, rating);
+  }
+
+  public async decCommentCount(offerId: string, rating: number): Promise<DocumentType<OfferEntity> | null> {
+    return this.updateCommentStats(offerId, -1, -rating);
+  }
+
+  public async changeCommentRating(offerId: string, ratingDelta: number): Promise<DocumentType<OfferEntity> | null> {
+    return this.updateCommentStats(offerId, 0, ratingDelta);
+  }
+
+  public async findImageNames(): Promise<string[]> {
+    const [previewImages, offerImages] = await Promise.all([
+      this.offerModel.distinct('previewImage').exec(),
+      this.offerModel.distinct('offerImages').exec(),
+    ]);
+
+    return [...new Set<string>([...previewImages, ...offerImages])];
+  }
+
+  public async migrateCoordinates(): Promise<CoordinatesMigration> {
+    // The importer stored the raw TSV strings (some with trailing spaces): a value that still
+    // cannot be read as a number keeps the old shape instead of aborting the whole update.
+    const toCoordinate = (field: string) => ({'$convert': {
+      input: {'$trim': {input: {'$toString': `$coordinates.${field}`}}},
+      to: 'double',
+      onError: null,
+      onNull: null
+    }});
+
+    // The legacy path is not in the schema any more: without strictQuery: false Mongoose drops the filter.
+    const legacyFilter = {'coordinates.latitude': {'$exists': true}};
+
+    const {modifiedCount} = await this.offerModel
+      .updateMany(
+        legacyFilter,
+        [{'$set': {
+          coordinates: {'$let': {
+            vars: {longitude: toCoordinate('longitude'), latitude: toCoordinate('latitude')},
+            in: {'$cond': [
+              {'$or': [{'$eq': ['$$longitude', null]}, {'$eq': ['$$latitude', null]}]},
+              '$coordinates',
+              {type: 'Point', coordinates: ['$$longitude', '$$latitude']}
+            ]}
+          }}
+        }}],
+        {strictQuery: false}
+      )
+      .exec();
+
+    const failedIds = await this.offerModel
+      .distinct('_id', legacyFilter)
+      .setOptions({strictQuery: false})
+      .exec();
+
+    // The 2dsphere index cannot be built while any offer keeps the old coordinates.
+    if (failedIds.length === 0) {
+      await this.offerModel.createIndexes();
+    }
+
+    return {migratedCount: modifiedCount, failedIds: failedIds.map(String)};
+  }
+
+  public async migrateLanguages(): Promise<number> {
+    const offers = await this.offerModel
+      .find({language: {'$exists': false}}, {title: 1, description: 1})
+      .exec();
+
+    if (offers.length === 0) {
+      return 0;
+    }
+
+    const {modifiedCount} = await this.offerModel.bulkWrite(offers.map(({_id, title, description}) => ({
+      updateOne: {
+        filter: {_id},
+        update: {'$set': {language: detectSearchLanguage(`${title} ${description}`)}}
+      }
+    })));
+
+    return modifiedCount;
+  }
+
+  public async recalculateRatings(): Promise<void> {
+    await this.offerModel
+      .aggregate([
+        {'$lookup': {
+          from: 'comments',
+          localField: '_id',
+          foreignField: 'offerId',
+          as: 'comments'
+        }},
+        {'$project': {
+          commentCount: {'$size': '$comments'},
+          ratingSum: {'$sum': '$comments.rating'},
+        }},
+        {'$set': {rating: this.getRatingExpression()}},
+        {'$merge': {into: 'offers', on: '_id', whenMatched: 'merge', whenNotMatched: 'discard'}},
+      ])
+      .exec();
   }
 }
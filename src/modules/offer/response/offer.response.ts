@@ -1,9 +1,13 @@
-import { Expose, Type } from 'class-transformer';
+import { Expose, Transform, Type } from 'class-transformer';
 import { OfferType } from '../../../types/offer-type.enum.js';
 import { FacilitiesType } from '../../../types/offer-facilities.enum.js';
 import UserResponse from '../../user/response/user.response.js';
 import { Coordinate } from '../../../types/coordinate.type.js';
 import { OfferCity } from '../../../types/offer-city.enum.js';
+import { getImageVariants } from '../../../utils/image.js';
+import { fromGeoPoint } from '../../../utils/geo.js';
+import { ImageVariants } from '../../../types/image-variants.type.js';
+import { StaticResource } from '../../../common/decorators/static-resource.decorator.js';
 
 
 export default class OfferResponse {
@@ -23,16 +27,28 @@ export default class OfferResponse {
   public city!: OfferCity;
 
   @Expose()
+  @StaticResource()
   public previewImage!: string;
 
   @Expose()
+  @Transform(({obj}) => getImageVariants(obj.previewImage))
+  @StaticResource()
+  public previewImageVariants!: ImageVariants;
+
+  @Expose()
+  @StaticResource()
   public offerImages!: string[];
 
+  @Expose()
+  @Transform(({obj}) => obj.offerImages?.map((image: string) => getImageVariants(image)))
+  @StaticResource()
+  public offerImageVariants!: ImageVariants[];
+
   @Expose()
   public isPremium!: boolean;
 
   @Expose()
-  public isFavorites!: boolean;
+  public isFavorite!: boolean;
 
   @Expose()
   public rating!: number;
@@ -60,5 +76,6 @@ export default class OfferResponse {
   public commentCount!: number;
 
   @Expose()
+  @Transform(({obj}) => fromGeoPoint(obj.coordinates))
   public coordinates!: Coordinate;
 }
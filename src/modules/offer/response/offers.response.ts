@@ -1,5 +1,8 @@
-import { Expose } from 'class-transformer';
+import { Expose, Transform } from 'class-transformer';
 import { OfferType } from '../../../types/offer-type.enum.js';
+import { getImageVariants } from '../../../utils/image.js';
+import { ImageVariants } from '../../../types/image-variants.type.js';
+import { StaticResource } from '../../../common/decorators/static-resource.decorator.js';
 
 
 export default class OffersResponse {
@@ -16,13 +19,19 @@ export default class OffersResponse {
   public city!: string;
 
   @Expose()
+  @StaticResource()
   public previewImage!: string;
 
+  @Expose()
+  @Transform(({obj}) => getImageVariants(obj.previewImage))
+  @StaticResource()
+  public previewImageVariants!: ImageVariants;
+
   @Expose()
   public isPremium!: boolean;
 
   @Expose()
-  public isFavorites!: boolean;
+  public isFavorite!: boolean;
 
   @Expose()
   public rating!: number;
@@ -1,6 +1,15 @@
-import {Expose} from 'class-transformer';
+import {Expose, Transform} from 'class-transformer';
+import { getImageVariants } from '../../../utils/image.js';
+import { ImageVariants } from '../../../types/image-variants.type.js';
+import { StaticResource } from '../../../common/decorators/static-resource.decorator.js';
 
 export default class UploadImageResponse {
   @Expose()
+  @StaticResource()
   public previewImage!: string;
+
+  @Expose()
+  @Transform(({obj}) => getImageVariants(obj.previewImage))
+  @StaticResource()
+  public previewImageVariants!: ImageVariants;
 }
@@ -0,0 +1,15 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { SessionEntity } from './session.entity.js';
+import { DocumentExistsInterface } from '../../types/document-exists.interface.js';
+
+export type SessionTokens = {
+  session: DocumentType<SessionEntity>;
+  refreshToken: string;
+}
+
+export interface SessionServiceInterface extends DocumentExistsInterface {
+  create(userId: string): Promise<SessionTokens>;
+  rotate(refreshToken: string): Promise<SessionTokens | null>;
+  revoke(sessionId: string): Promise<void>;
+  exists(documentId: string): Promise<boolean>;
+}
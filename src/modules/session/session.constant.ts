@@ -0,0 +1,2 @@
+export const REFRESH_TOKEN_SEPARATOR = '.';
+export const REFRESH_TOKEN_SECRET_LENGTH = 32;
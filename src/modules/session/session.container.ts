@@ -0,0 +1,13 @@
+import { Container } from 'inversify';
+import { types } from '@typegoose/typegoose';
+import { SessionEntity, SessionModel } from './session.entity.js';
+import { SessionServiceInterface } from './session-service.interface.js';
+import SessionService from './session.service.js';
+import { Component } from '../../types/component.types.js';
+
+const sessionContainer = new Container();
+
+sessionContainer.bind<SessionServiceInterface>(Component.SessionServiceInterface).to(SessionService).inSingletonScope();
+sessionContainer.bind<types.ModelType<SessionEntity>>(Component.SessionModel).toConstantValue(SessionModel);
+
+export { sessionContainer };
@@ -0,0 +1,28 @@
+import typegoose, { getModelForClass, Ref, defaultClasses } from '@typegoose/typegoose';
+import { UserEntity } from '../user/user.entity.js';
+
+const {prop, modelOptions, index} = typegoose;
+
+export interface SessionEntity extends defaultClasses.Base {}
+
+@modelOptions({
+  schemaOptions: {
+    collection: 'sessions'
+  }
+})
+@index({expiresAt: 1}, {expireAfterSeconds: 0})
+export class SessionEntity extends defaultClasses.TimeStamps {
+  @prop({
+    ref: UserEntity,
+    required: true
+  })
+  public userId!: Ref<UserEntity>;
+
+  @prop({required: true})
+  public refreshTokenHash!: string;
+
+  @prop({required: true})
+  public expiresAt!: Date;
+}
+
+export const SessionModel = getModelForClass(SessionEntity);
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import dayjs from 'dayjs';
+import mongoose from 'mongoose';
+import { inject, injectable } from 'inversify';
+import { types } from '@typegoose/typegoose';
+import { SessionServiceInterface, SessionTokens } from './session-service.interface.js';
+import { SessionEntity } from './session.entity.js';
+import { Component } from '../../types/component.types.js';
+import { LoggerInterface } from '../../common/logger/logger.interface.js';
+import { ConfigInterface } from '../../common/config/config.interface.js';
+import { createSHA256 } from '../../utils/common.js';
+import { REFRESH_TOKEN_SECRET_LENGTH, REFRESH_TOKEN_SEPARATOR } from './session.constant.js';
+
+@injectable()
+export default class SessionService implements SessionServiceInterface {
+  constructor(
+    @inject(Component.LoggerInterface) private readonly logger: LoggerInterface,
+    @inject(Component.ConfigInterface) private readonly config: ConfigInterface,
+    @inject(Component.SessionModel) private readonly sessionModel: types.ModelType<SessionEntity>
+  ) {}
+
+  private createSecret(): string {
+    return crypto.randomBytes(REFRESH_TOKEN_SECRET_LENGTH).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return createSHA256(secret, this.config.get('JWT_SECRET'));
+  }
+
+  private getExpirationDate(): Date {
+    return dayjs().add(this.config.get('REFRESH_TOKEN_EXPIRATION_DAYS'), 'day').toDate();
+  }
+
+  public async create(userId: string): Promise<SessionTokens> {
+    const secret = this.createSecret();
+    const session = await this.sessionModel.create({
+      userId,
+      refreshTokenHash: this.hashSecret(secret),
+      expiresAt: this.getExpirationDate(),
+    });
+
+    return {session, refreshToken: [session.id, secret].join(REFRESH_TOKEN_SEPARATOR)};
+  }
+
+  public async rotate(refreshToken: string): Promise<SessionTokens | null> {
+    const [sessionId, secret] = refreshToken.split(REFRESH_TOKEN_SEPARATOR);
+
+    if (!secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+      return null;
+    }
+
+    const session = await this.sessionModel
+      .findOne({_id: sessionId, expiresAt: {'$gt': new Date()}})
+      .exec();
+
+    if (!session) {
+      return null;
+    }
+
+    if (session.refreshTokenHash !== this.hashSecret(secret)) {
+      this.logger.warn(`Refresh token reuse detected, session ${sessionId} revoked`);
+      await this.revoke(sessionId);
+      return null;
+    }
+
+    const newSecret = this.createSecret();
+    const rotatedSession = await this.sessionModel
+      .findOneAndUpdate(
+        {_id: sessionId, refreshTokenHash: session.refreshTokenHash},
+        {refreshTokenHash: this.hashSecret(newSecret), expiresAt: this.getExpirationDate()},
+        {new: true}
+      )
+      .exec();
+
+    if (!rotatedSession) {
+      return null;
+    }
+
+    return {session: rotatedSession, refreshToken: [sessionId, newSecret].join(REFRESH_TOKEN_SEPARATOR)};
+  }
+
+  public async revoke(sessionId: string): Promise<void> {
+    await this.sessionModel
+      .findByIdAndDelete(sessionId)
+      .exec();
+  }
+
+  public async exists(documentId: string): Promise<boolean> {
+    return (await this.sessionModel
+      .exists({_id: documentId, expiresAt: {'$gt': new Date()}})) !== null;
+  }
+}
@@ -0,0 +1,6 @@
+import { IsString } from 'class-validator';
+
+export default class RefreshTokenDto {
+  @IsString({message: 'refreshToken is required'})
+  public refreshToken!: string;
+}
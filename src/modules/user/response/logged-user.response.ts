@@ -1,14 +1,20 @@
 import { Expose } from 'class-transformer';
 import { UserType } from '../../../types/user-type.enum.js';
+import { UserRole } from '../../../types/user-role.enum.js';
+import { StaticResource } from '../../../common/decorators/static-resource.decorator.js';
 
 export default class LoggedUserResponse {
   @Expose()
   public token!: string;
 
+  @Expose()
+  public refreshToken!: string;
+
   @Expose()
   public email!: string;
 
   @Expose()
+  @StaticResource()
   public avatarPath!: string;
 
   @Expose()
@@ -16,4 +22,7 @@ export default class LoggedUserResponse {
 
   @Expose()
   public userType!: UserType;
+
+  @Expose()
+  public role!: UserRole;
 }
@@ -1,5 +1,8 @@
-import { Expose } from 'class-transformer';
+import { Expose, Transform } from 'class-transformer';
+import { getImageVariants } from '../../../utils/image.js';
+import { ImageVariants } from '../../../types/image-variants.type.js';
 import { UserType } from '../../../types/user-type.enum.js';
+import { StaticResource } from '../../../common/decorators/static-resource.decorator.js';
 
 export default class UserResponse {
   @Expose()
@@ -12,8 +15,14 @@ export default class UserResponse {
   public email!: string;
 
   @Expose()
+  @StaticResource()
   public avatarPath!: string;
 
+  @Expose()
+  @Transform(({obj}) => getImageVariants(obj.avatarPath))
+  @StaticResource()
+  public avatarVariants!: ImageVariants;
+
   @Expose()
   public userType!: UserType;
 }
@@ -1,13 +1,24 @@
 import { DocumentType } from '@typegoose/typegoose';
+import { ClientSession } from 'mongoose';
 import CreateUserDto from './dto/create-user.dto.js';
 import { UserEntity } from './user.entity.js';
 import UpdateUserDto from './dto/update-user.dto.js';
 import LoginUserDto from './dto/login-user.dto.js';
+import { DocumentOwnerInterface } from '../../types/document-owner.interface.js';
+import { UserRole } from '../../types/user-role.enum.js';
 
-export interface UserServiceInterface {
-  create(dto: CreateUserDto, salt: string): Promise<DocumentType<UserEntity>>;
+export interface UserServiceInterface extends DocumentOwnerInterface {
+  create(dto: CreateUserDto): Promise<DocumentType<UserEntity>>;
+  findById(userId: string): Promise<DocumentType<UserEntity> | null>;
   findByEmail(email: string): Promise<DocumentType<UserEntity> | null>;
-  findOrCreate(dto: CreateUserDto, salt: string): Promise<DocumentType<UserEntity>>;
+  findOrCreate(dto: CreateUserDto): Promise<DocumentType<UserEntity>>;
   updateById(userId: string, dto: UpdateUserDto): Promise<DocumentType<UserEntity> | null>;
+  setRole(email: string, role: UserRole): Promise<DocumentType<UserEntity> | null>;
   verifyUser(dto: LoginUserDto, salt: string): Promise<DocumentType<UserEntity> | null>;
+  addToFavorites(userId: string, offerId: string): Promise<DocumentType<UserEntity> | null>;
+  removeFromFavorites(userId: string, offerId: string): Promise<DocumentType<UserEntity> | null>;
+  findFavoriteIds(userId: string): Promise<string[]>;
+  findAvatarPaths(): Promise<string[]>;
+  removeOfferFromAllFavorites(offerId: string, session?: ClientSession): Promise<number>;
+  findOwnerId(documentId: string): Promise<string | null>;
 }
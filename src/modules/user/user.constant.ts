@@ -1,3 +1,7 @@
+import { UserRole } from '../../types/user-role.enum.js';
+
 export const JWT_ALGORITM = 'HS256';
 
 export const DEFAULT_AVATAR_FILE_NAME = 'default-avatar.jpg';
+
+export const MODERATOR_ROLES = [UserRole.moderator, UserRole.admin];
@@ -11,6 +11,7 @@ import { StatusCodes } from 'http-status-codes';
 import { createJWT, fillDTO } from '../../utils/common.js';
 import UserResponse from './response/user.response.js';
 import { ConfigInterface } from '../../common/config/config.interface.js';
+import { StorageInterface } from '../../common/storage/storage.interface.js';
 import LoginUserDto from './dto/login-user.dto.js';
 import { ValidateDtoMiddleware } from '../../common/middlewares/validate-dto.middleware.js';
 import { ValidateObjectIdMiddleware } from '../../common/middlewares/validate-objectid.middleware.js';
@@ -18,6 +19,12 @@ import { UploadFileMiddleware } from '../../common/middlewares/upload-file.middl
 import LoggedUserResponse from './response/logged-user.response.js';
 import { JWT_ALGORITM } from './user.constant.js';
 import UploadUserAvatarResponse from './response/upload-user-avatar.response.js';
+import { PrivateRouteMiddleware } from '../../common/middlewares/private-route.middleware.js';
+import { CheckOwnerMiddleware } from '../../common/middlewares/check-owner.middleware.js';
+import { removeUploadedImage } from '../../utils/file.js';
+import { SessionServiceInterface } from '../session/session-service.interface.js';
+import RefreshTokenDto from './dto/refresh-token.dto.js';
+import { UserEntity } from './user.entity.js';
 
 
 @injectable()
@@ -25,9 +32,11 @@ export default class UserController extends Controller {
   constructor(
     @inject(Component.LoggerInterface) logger: LoggerInterface,
     @inject(Component.ConfigInterface) configService: ConfigInterface,
+    @inject(Component.StorageInterface) storage: StorageInterface,
     @inject(Component.UserServiceInterface) private readonly userService: UserServiceInterface,
+    @inject(Component.SessionServiceInterface) private readonly sessionService: SessionServiceInterface,
   ) {
-    super(logger, configService);
+    super(logger, configService, storage);
     this.logger.info('Register routes for UserController...');
 
     this.addRoute({
@@ -42,13 +51,44 @@ export default class UserController extends Controller {
       handler: this.login,
       middlewares: [new ValidateDtoMiddleware(LoginUserDto)]
     });
+    this.addRoute({
+      path: '/refresh',
+      method: HttpMethod.Post,
+      handler: this.refresh,
+      middlewares: [new ValidateDtoMiddleware(RefreshTokenDto)]
+    });
+    this.addRoute({
+      path: '/logout',
+      method: HttpMethod.Post,
+      handler: this.logout,
+      middlewares: [new PrivateRouteMiddleware()]
+    });
+    this.addRoute({
+      path: '/me/avatar',
+      method: HttpMethod.Post,
+      handler: this.uploadAvatar,
+      middlewares: [
+        new PrivateRouteMiddleware(),
+        new UploadFileMiddleware(
+          this.storage,
+          'avatar',
+          this.configService.get('UPLOAD_MAX_FILE_SIZE')
+        ),
+      ]
+    });
     this.addRoute({
       path: '/:userId/avatar',
       method: HttpMethod.Post,
       handler: this.uploadAvatar,
       middlewares: [
+        new PrivateRouteMiddleware(),
         new ValidateObjectIdMiddleware('userId'),
-        new UploadFileMiddleware(this.configService.get('UPLOAD_DIRECTORY'), 'avatar'),
+        new CheckOwnerMiddleware(this.userService, 'User', 'userId'),
+        new UploadFileMiddleware(
+          this.storage,
+          'avatar',
+          this.configService.get('UPLOAD_MAX_FILE_SIZE')
+        ),
       ]
     });
     this.addRoute({
@@ -58,6 +98,15 @@ export default class UserController extends Controller {
     });
   }
 
+  private async createAccessToken(user: UserEntity, sessionId: string): Promise<string> {
+    return createJWT(
+      JWT_ALGORITM,
+      this.configService.get('JWT_SECRET'),
+      this.configService.get('JWT_EXPIRATION_TIME'),
+      { email: user.email, id: user.id, role: user.role, userType: user.userType, sessionId }
+    );
+  }
+
   public async create(
     {body}: Request<Record<string, unknown>, Record<string, unknown>, CreateUserDto>,
     res: Response,
@@ -72,7 +121,7 @@ export default class UserController extends Controller {
       );
     }
 
-    const result = await this.userService.create(body, this.configService.get('SALT'));
+    const result = await this.userService.create(body);
     this.send(
       res,
       StatusCodes.CREATED,
@@ -94,23 +143,62 @@ export default class UserController extends Controller {
       );
     }
 
-    const token = await createJWT(
-      JWT_ALGORITM,
-      this.configService.get('JWT_SECRET'),
-      { email: user.email, id: user.id}
-    );
+    const {session, refreshToken} = await this.sessionService.create(user.id);
+    const token = await this.createAccessToken(user, session.id);
+
+    this.ok(res, Object.assign(fillDTO(LoggedUserResponse, user), {
+      token,
+      refreshToken
+    }));
+  }
+
+  public async refresh(
+    {body}: Request<Record<string, unknown>, Record<string, unknown>, RefreshTokenDto>,
+    res: Response,
+  ): Promise<void> {
+    const rotated = await this.sessionService.rotate(body.refreshToken);
+    const user = rotated && await this.userService.findById(String(rotated.session.userId));
+
+    if (!rotated || !user) {
+      throw new HttpError(
+        StatusCodes.UNAUTHORIZED,
+        'Invalid refresh token',
+        'UserController'
+      );
+    }
+
+    const token = await this.createAccessToken(user, rotated.session.id);
 
     this.ok(res, {
-      ...fillDTO(LoggedUserResponse, user),
-      token
+      token,
+      refreshToken: rotated.refreshToken
     });
   }
 
+  public async logout(req: Request, res: Response): Promise<void> {
+    await this.sessionService.revoke(req.user.sessionId);
+    this.noContent(res);
+  }
+
   public async uploadAvatar(req: Request, res: Response) {
-    const {userId} = req.params;
-    const uploaFile = {avatarPath: req.file?.filename};
-    await this.userService.updateById(userId, uploaFile);
-    this.created(res, fillDTO(UploadUserAvatarResponse, uploaFile));
+    if (!req.file) {
+      throw new HttpError(
+        StatusCodes.BAD_REQUEST,
+        'Avatar file is required',
+        'UserController'
+      );
+    }
+
+    const userId = req.params.userId ?? req.user.id;
+    const user = await this.userService.findById(userId);
+    const uploadFile = {avatarPath: req.file.filename};
+    await this.userService.updateById(userId, uploadFile);
+
+    if (user && user.avatarPath !== uploadFile.avatarPath) {
+      await removeUploadedImage(this.storage, user.avatarPath);
+    }
+
+    this.created(res, fillDTO(UploadUserAvatarResponse, uploadFile));
   }
 
   public async checkAuthenticate(req: Request, res: Response) {
@@ -1,7 +1,9 @@
 import { User } from '../../types/user.type.js';
 import { UserType } from '../../types/user-type.enum.js';
-import typegoose, { getModelForClass, defaultClasses } from '@typegoose/typegoose';
-import { createSHA256 } from '../../utils/common.js';
+import { UserRole } from '../../types/user-role.enum.js';
+import typegoose, { getModelForClass, defaultClasses, Ref } from '@typegoose/typegoose';
+import { createPasswordHash, isPasswordHashOutdated, verifyPasswordHash } from '../../utils/password.js';
+import type { OfferEntity } from '../offer/offer.entity.js';
 
 const { prop, modelOptions } = typegoose;
 
@@ -39,20 +41,34 @@ export class UserEntity extends defaultClasses.TimeStamps implements User {
   })
   public userType!: UserType;
 
+  @prop({
+    type: () => String,
+    enum: UserRole,
+    required: true,
+    default: UserRole.user,
+  })
+  public role!: UserRole;
+
   @prop({ required: true, default: '' })
   private password!: string;
 
-  public setPassword(password: string, salt: string) {
-    this.password = createSHA256(password, salt);
+  @prop({ ref: 'OfferEntity', default: [] })
+  public favorites!: Ref<OfferEntity>[];
+
+  public async setPassword(password: string) {
+    this.password = await createPasswordHash(password);
   }
 
   public getPassword() {
     return this.password;
   }
 
-  public verifyPassword(password: string, salt: string) {
-    const hashPassword = createSHA256(password, salt);
-    return hashPassword === this.password;
+  public async verifyPassword(password: string, legacySalt: string) {
+    return verifyPasswordHash(password, this.password, legacySalt);
+  }
+
+  public isPasswordOutdated() {
+    return isPasswordHashOutdated(this.password);
   }
 }
 
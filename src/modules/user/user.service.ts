@@ -1,5 +1,6 @@
 import { inject, injectable } from 'inversify';
 import { DocumentType, types } from '@typegoose/typegoose';
+import { ClientSession } from 'mongoose';
 import { UserEntity } from './user.entity.js';
 import CreateUserDto from './dto/create-user.dto.js';
 import { UserServiceInterface } from './user-service.interface.js';
@@ -8,6 +9,7 @@ import { Component } from '../../types/component.types.js';
 import UpdateUserDto from './dto/update-user.dto.js';
 import LoginUserDto from './dto/login-user.dto.js';
 import { DEFAULT_AVATAR_FILE_NAME } from './user.constant.js';
+import { UserRole } from '../../types/user-role.enum.js';
 
 @injectable()
 export default class UserService implements UserServiceInterface {
@@ -16,9 +18,9 @@ export default class UserService implements UserServiceInterface {
     @inject(Component.UserModel) private readonly userModel: types.ModelType<UserEntity>
   ) {}
 
-  public async create(dto: CreateUserDto, salt: string): Promise<DocumentType<UserEntity>> {
+  public async create(dto: CreateUserDto): Promise<DocumentType<UserEntity>> {
     const user = new UserEntity({...dto, avatarPath: DEFAULT_AVATAR_FILE_NAME});
-    user.setPassword(dto.password, salt);
+    await user.setPassword(dto.password);
 
     const result = await this.userModel.create(user);
     this.logger.info(`New user created: ${user.email}`);
@@ -26,18 +28,24 @@ export default class UserService implements UserServiceInterface {
     return result;
   }
 
+  public async findById(userId: string): Promise<DocumentType<UserEntity> | null> {
+    return this.userModel
+      .findById(userId)
+      .exec();
+  }
+
   public async findByEmail(email: string): Promise<DocumentType<UserEntity> | null> {
     return this.userModel.findOne({email});
   }
 
-  public async findOrCreate(dto: CreateUserDto, salt: string): Promise<DocumentType<UserEntity>> {
+  public async findOrCreate(dto: CreateUserDto): Promise<DocumentType<UserEntity>> {
     const existedUser = await this.findByEmail(dto.email);
 
     if (existedUser) {
       return existedUser;
     }
 
-    return this.create(dto, salt);
+    return this.create(dto);
   }
 
   public async updateById(userId: string, dto: UpdateUserDto): Promise<DocumentType<UserEntity> | null> {
@@ -46,6 +54,12 @@ export default class UserService implements UserServiceInterface {
       .exec();
   }
 
+  public async setRole(email: string, role: UserRole): Promise<DocumentType<UserEntity> | null> {
+    return this.userModel
+      .findOneAndUpdate({email}, {role}, {new: true})
+      .exec();
+  }
+
   public async verifyUser(dto: LoginUserDto, salt: string): Promise<DocumentType<UserEntity> | null> {
     const user = await this.findByEmail(dto.email);
 
@@ -53,10 +67,58 @@ export default class UserService implements UserServiceInterface {
       return null;
     }
 
-    if (user.verifyPassword(dto.password, salt)) {
-      return user;
+    if (! await user.verifyPassword(dto.password, salt)) {
+      return null;
+    }
+
+    if (user.isPasswordOutdated()) {
+      await user.setPassword(dto.password);
+      await user.save();
+      this.logger.info(`Password hash upgraded for user: ${user.email}`);
     }
 
-    return null;
+    return user;
+  }
+
+  public async addToFavorites(userId: string, offerId: string): Promise<DocumentType<UserEntity> | null> {
+    return this.userModel
+      .findByIdAndUpdate(userId, {'$addToSet': {favorites: offerId}}, {new: true})
+      .exec();
+  }
+
+  public async removeFromFavorites(userId: string, offerId: string): Promise<DocumentType<UserEntity> | null> {
+    return this.userModel
+      .findByIdAndUpdate(userId, {'$pull': {favorites: offerId}}, {new: true})
+      .exec();
+  }
+
+  public async removeOfferFromAllFavorites(offerId: string, session?: ClientSession): Promise<number> {
+    const result = await this.userModel
+      .updateMany({favorites: offerId}, {'$pull': {favorites: offerId}}, {session})
+      .exec();
+
+    return result.modifiedCount;
+  }
+
+  public async findAvatarPaths(): Promise<string[]> {
+    return this.userModel
+      .distinct('avatarPath')
+      .exec();
+  }
+
+  public async findFavoriteIds(userId: string): Promise<string[]> {
+    const user = await this.userModel
+      .findById(userId, {favorites: 1})
+      .exec();
+
+    return user ? user.favorites.map((offerId) => String(offerId)) : [];
+  }
+
+  public async findOwnerId(documentId: string): Promise<string | null> {
+    const user = await this.userModel
+      .findById(documentId, {_id: 1})
+      .exec();
+
+    return user ? user.id : null;
   }
 }
@@ -0,0 +1,4 @@
+export type AvailabilityDay = {
+  date: string;
+  isFree: boolean;
+}
@@ -0,0 +1,4 @@
+export enum BookingKind {
+  Reservation = 'reservation',
+  Block = 'block',
+}
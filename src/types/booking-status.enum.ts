@@ -0,0 +1,4 @@
+export enum BookingStatus {
+  Active = 'active',
+  Cancelled = 'cancelled',
+}
@@ -0,0 +1,6 @@
+export type BoundingBox = {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
@@ -9,8 +9,14 @@ export const Component = {
   OfferModel: Symbol.for('OfferModel'),
   CommentServiceInterface: Symbol.for('CommentServiceInterface'),
   CommentModel: Symbol.for('CommentModel'),
+  BookingServiceInterface: Symbol.for('BookingServiceInterface'),
+  BookingModel: Symbol.for('BookingModel'),
+  SessionServiceInterface: Symbol.for('SessionServiceInterface'),
+  SessionModel: Symbol.for('SessionModel'),
   ExceptionFilterInterface: Symbol.for('ExceptionFilterInterface'),
+  StorageInterface: Symbol.for('StorageInterface'),
   UserController: Symbol.for('UserController'),
   CommentController: Symbol.for('CommentController'),
+  BookingController: Symbol.for('BookingController'),
   OfferController: Symbol.for('OfferController')
 } as const;
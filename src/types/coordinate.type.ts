@@ -1,4 +1,4 @@
 export type Coordinate = {
-  latitude: string;
-  longitude: string;
+  latitude: number;
+  longitude: number;
 }
@@ -0,0 +1,4 @@
+export type CoordinatesMigration = {
+  migratedCount: number;
+  failedIds: string[];
+}
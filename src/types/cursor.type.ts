@@ -0,0 +1,4 @@
+export type Cursor = {
+  value: unknown;
+  id: string;
+}
@@ -3,6 +3,9 @@ declare namespace Express {
     user: {
       id: string,
       email: string,
+      sessionId: string,
+      role: import('./user-role.enum.js').UserRole,
+      userType: import('./user-type.enum.js').UserType,
     }
   }
 }
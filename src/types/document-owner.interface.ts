@@ -0,0 +1,3 @@
+export interface DocumentOwnerInterface {
+  findOwnerId(documentId: string): Promise<string | null>;
+}
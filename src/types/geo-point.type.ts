@@ -0,0 +1,4 @@
+export type GeoPoint = {
+  type: 'Point';
+  coordinates: [longitude: number, latitude: number];
+}
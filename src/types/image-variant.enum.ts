@@ -0,0 +1,5 @@
+export enum ImageVariant {
+  thumbnail = 'thumbnail',
+  medium = 'medium',
+  original = 'original',
+}
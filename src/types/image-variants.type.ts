@@ -0,0 +1,3 @@
+import { ImageVariant } from './image-variant.enum.js';
+
+export type ImageVariants = Record<ImageVariant, string>;
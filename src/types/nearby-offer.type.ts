@@ -0,0 +1,7 @@
+import { DocumentType } from '@typegoose/typegoose';
+import { OfferEntity } from '../modules/offer/offer.entity.js';
+
+export type NearbyOffer = {
+  offer: DocumentType<OfferEntity>;
+  distance: number;
+}
@@ -0,0 +1,10 @@
+export enum OfferSortType {
+  PriceUp = 'price',
+  PriceDown = '-price',
+  RatingUp = 'rating',
+  RatingDown = '-rating',
+  PostDateUp = 'postDate',
+  PostDateDown = '-postDate',
+  CommentCountUp = 'commentCount',
+  CommentCountDown = '-commentCount',
+}
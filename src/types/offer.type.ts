@@ -12,7 +12,6 @@ export type Offer = {
   previewImage: string;
   offerImages: string[];
   isPremium: boolean;
-  isFavorites: boolean;
   rating: number;
   type: OfferType;
   roomCount: number;
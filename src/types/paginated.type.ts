@@ -0,0 +1,5 @@
+export type Paginated<T> = {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
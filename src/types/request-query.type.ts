@@ -1,3 +0,0 @@
-export type RequestQuery = {
-  limit?: number;
-}
@@ -0,0 +1,4 @@
+export type SearchHighlight = {
+  title: string | null;
+  description: string | null;
+}
@@ -0,0 +1,4 @@
+export enum SearchLanguage {
+  English = 'english',
+  Russian = 'russian',
+}
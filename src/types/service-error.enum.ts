@@ -1,5 +1,6 @@
 export enum ServiceError {
   ValidationError = 'VALIDATION_ERROR',
   CommonError = 'COMMON_ERROR',
-  ServiceError = 'SERVICE_ERROR'
+  ServiceError = 'SERVICE_ERROR',
+  ForbiddenError = 'FORBIDDEN_ERROR'
 }
@@ -0,0 +1,4 @@
+export enum StorageDriver {
+  Local = 'local',
+  S3 = 's3',
+}
@@ -0,0 +1,5 @@
+export enum UserRole {
+  user = 'user',
+  moderator = 'moderator',
+  admin = 'admin',
+}
@@ -1,7 +1,10 @@
 import * as jose from 'jose';
 import crypto from 'crypto';
+import { basename } from 'path';
+import { Request } from 'express';
 import { plainToInstance, ClassConstructor } from 'class-transformer';
 import { ValidationError } from 'class-validator';
+import { isDocument, Ref } from '@typegoose/typegoose';
 import { OfferType } from '../types/offer-type.enum.js';
 import { Offer } from '../types/offer.type.js';
 import { FacilitiesType } from '../types/offer-facilities.enum.js';
@@ -9,11 +12,14 @@ import { UserType } from '../types/user-type.enum.js';
 import { ValidationErrorField } from '../types/validation-error-field.type';
 import { ServiceError } from '../types/service-error.enum.js';
 import { UnknownObject } from '../types/unknown-object.type.js';
-import { DEFAULT_STATIC_IMAGES } from '../app/application.constant.js';
+import { DEFAULT_STATIC_IMAGES, STATIC_ROUTE } from '../app/application.constant.js';
+import { decodeCursor } from './pagination.js';
+import { StorageInterface } from '../common/storage/storage.interface.js';
+import { getStaticResourceFields } from '../common/decorators/static-resource.decorator.js';
 
 export const createOffer = (row: string) => {
   const tokens = row.replace('\n', '').split('\t');
-  const [title, description, createdDate, city, previewImage, offerImages, isPremium, isFavorites, rating, type, roomCount, guestsCount, price, facilities, name, email, avatarPath, password, userType,commentCount, latitude, longitude] = tokens;
+  const [title, description, createdDate, city, previewImage, offerImages, isPremium, rating, type, roomCount, guestsCount, price, facilities, name, email, avatarPath, password, userType,commentCount, latitude, longitude] = tokens;
   return {
     title,
     description,
@@ -22,7 +28,6 @@ export const createOffer = (row: string) => {
     previewImage,
     offerImages: offerImages.split(';'),
     isPremium: Boolean(isPremium),
-    isFavorites: Boolean(isFavorites),
     rating: Number.parseInt(rating, 10),
     type: OfferType[type as 'apartment' | 'house' | 'room' | 'hotel'],
     roomCount: Number.parseInt(roomCount, 10),
@@ -33,8 +38,8 @@ export const createOffer = (row: string) => {
     user: { name, email, avatarPath, password, userType: UserType[userType as 'normal' | 'pro'] },
     commentCount: Number.parseInt(commentCount, 10),
     coordinates: {
-      latitude: latitude,
-      longitude: longitude,
+      latitude: Number.parseFloat(latitude),
+      longitude: Number.parseFloat(longitude),
     },
   } as Offer;
 };
@@ -56,43 +61,117 @@ export const createErrorObject = (serviceError: ServiceError, message: string, d
   details: [...details]
 });
 
-export const createJWT = async (algoritm: string, jwtSecret: string, payload: object): Promise<string> =>
+export const createJWT = async (algoritm: string, jwtSecret: string, expirationTime: string, payload: object): Promise<string> =>
   new jose.SignJWT({...payload})
     .setProtectedHeader({ alg: algoritm})
     .setIssuedAt()
-    .setExpirationTime('2d')
+    .setExpirationTime(expirationTime)
     .sign(crypto.createSecretKey(jwtSecret, 'utf-8'));
 
+const getErrorMessages = ({constraints, children = []}: ValidationError): string[] =>
+  constraints ? Object.values(constraints) : children.flatMap(getErrorMessages);
+
 export const transformErrors = (errors: ValidationError[]): ValidationErrorField[] =>
-  errors.map(({property, value, constraints}) => ({
-    property,
-    value,
-    messages: constraints ? Object.values(constraints) : []
+  errors.map((error) => ({
+    property: error.property,
+    value: error.value,
+    messages: getErrorMessages(error)
   }));
 
+export const transformQueryArray = ({value}: {value: unknown}) =>
+  Array.isArray(value) ? value : String(value).split(',');
+
+export const transformQueryBoolean = ({value}: {value: unknown}) => {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+
+  return value;
+};
+
+export const transformQueryNumbers = <T>(dto: ClassConstructor<T>, fields: (keyof T)[]) =>
+  ({value}: {value: unknown}) => {
+    const numbers = typeof value === 'string' ? value.split(',') : [];
+
+    if (numbers.length !== fields.length) {
+      return value;
+    }
+
+    return plainToInstance(dto, Object.fromEntries(
+      fields.map((field, index) => [field, Number.parseFloat(numbers[index])])
+    ));
+  };
+
+// Only a decoded cursor may become an object: nested query params (cursor[value][$gt]=) stay invalid.
+export const transformQueryCursor = ({value}: {value: unknown}) =>
+  typeof value === 'string' ? decodeCursor(value) ?? value : value && String(value);
+
+export const getRefId = <T>(ref: Ref<T>): string =>
+  isDocument(ref) ? ref.id : String(ref);
+
 export const getFullServerPath = (host: string, port: number) => `http://${host}:${port}`;
 
-const isObject = (value: unknown) => typeof value === 'object' && value !== null;
+export const getPublicUrl = (publicUrl: string, host: string, port: number) =>
+  publicUrl ? publicUrl.replace(/\/+$/, '') : getFullServerPath(host, port);
+
+const getFirstHeaderValue = (value?: string) => value?.split(',')[0].trim();
+
+export const getForwardedUrl = (req: Request) => {
+  const host = getFirstHeaderValue(req.get('X-Forwarded-Host')) || req.get('Host');
+  const prefix = getFirstHeaderValue(req.get('X-Forwarded-Prefix')) ?? '';
+  return `${req.protocol}://${host}${prefix.replace(/\/+$/, '')}`;
+};
+
+export const isAbsoluteUrl = (value: string) => /^https?:\/\//i.test(value);
 
-export const transformProperty = (
-  property: string,
-  someObject: UnknownObject,
-  transformFn: (object: UnknownObject) => void
-) => {
-  Object.keys(someObject)
+export const getResourceName = (value: string) =>
+  isAbsoluteUrl(value) ? decodeURIComponent(basename(new URL(value).pathname)) : value;
+
+const isObject = (value: unknown): value is UnknownObject => typeof value === 'object' && value !== null;
+
+const transformResource = (value: unknown, publicUrl: string, storage: StorageInterface): unknown => {
+  if (typeof value === 'string') {
+    if (!value || isAbsoluteUrl(value)) {
+      return value;
+    }
+
+    return DEFAULT_STATIC_IMAGES.includes(value)
+      ? `${publicUrl}${STATIC_ROUTE}/${value}`
+      : storage.getUrl(value, publicUrl);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => transformResource(item, publicUrl, storage));
+  }
+
+  if (isObject(value)) {
+    Object.keys(value)
+      .forEach((key) => {
+        value[key] = transformResource(value[key], publicUrl, storage);
+      });
+  }
+
+  return value;
+};
+
+export const transformObject = (publicUrl: string, storage: StorageInterface, data: unknown) => {
+  if (Array.isArray(data)) {
+    data.forEach((item) => transformObject(publicUrl, storage, item));
+    return;
+  }
+
+  if (!isObject(data)) {
+    return;
+  }
+
+  const resourceFields = getStaticResourceFields(data);
+
+  Object.keys(data)
     .forEach((key) => {
-      if (key === property) {
-        transformFn(someObject);
-      } else if (isObject(someObject[key])) {
-        transformProperty(property, someObject[key] as UnknownObject, transformFn);
+      if (resourceFields.includes(key)) {
+        data[key] = transformResource(data[key], publicUrl, storage);
+      } else {
+        transformObject(publicUrl, storage, data[key]);
       }
     });
 };
-
-export const transformObject = (properties: string[], staticPath: string, uploadPath: string, data:UnknownObject) => {
-  properties
-    .forEach((property) => transformProperty(property, data, (target: UnknownObject) => {
-      const rootPath = DEFAULT_STATIC_IMAGES.includes(target[property] as string) ? staticPath : uploadPath;
-      target[property] = `${rootPath}/${target[property]}`;
-    }));
-};
@@ -0,0 +1,19 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const toUTCDay = (value: string | Date): Date => {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+export const formatDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const getNightCount = (checkIn: Date, checkOut: Date): number =>
+  Math.round((checkOut.getTime() - checkIn.getTime()) / DAY_MS);
+
+export const getStayNights = (checkIn: Date, checkOut: Date): Date[] =>
+  Array.from(
+    {length: Math.max(getNightCount(checkIn, checkOut), 0)},
+    (_, index) => new Date(checkIn.getTime() + index * DAY_MS)
+  );
@@ -5,3 +5,8 @@ export const getURI = (
   port: number,
   databaseName: string,
 ): string => `mongodb://${username}:${password}@${host}:${port}/${databaseName}?authSource=admin`;
+
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+export const isDuplicateKeyError = (error: unknown): boolean =>
+  (error as {code?: number})?.code === DUPLICATE_KEY_ERROR_CODE;
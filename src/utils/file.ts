@@ -0,0 +1,21 @@
+import { DEFAULT_STATIC_IMAGES } from '../app/application.constant.js';
+import { StorageInterface } from '../common/storage/storage.interface.js';
+import { getImageVariantNames } from './image.js';
+
+export const removeUploadedFile = async (storage: StorageInterface, filename?: string): Promise<void> => {
+  if (!filename || DEFAULT_STATIC_IMAGES.includes(filename)) {
+    return;
+  }
+
+  await storage.remove(filename);
+};
+
+export const removeUploadedImage = async (storage: StorageInterface, filename?: string): Promise<void> => {
+  if (!filename) {
+    return;
+  }
+
+  await Promise.all(
+    getImageVariantNames(filename).map((variantName) => removeUploadedFile(storage, variantName))
+  );
+};
@@ -0,0 +1,30 @@
+import { Coordinate } from '../types/coordinate.type.js';
+import { GeoPoint } from '../types/geo-point.type.js';
+import { BoundingBox } from '../types/bounding-box.type.js';
+
+export const EARTH_RADIUS_METERS = 6378100;
+
+export const toGeoPoint = ({latitude, longitude}: Coordinate): GeoPoint => ({
+  type: 'Point',
+  coordinates: [longitude, latitude],
+});
+
+export const fromGeoPoint = (point?: GeoPoint): Coordinate | undefined => {
+  if (!point?.coordinates) {
+    return undefined;
+  }
+
+  const [longitude, latitude] = point.coordinates;
+  return {latitude, longitude};
+};
+
+export const getCircleGeometry = ({latitude, longitude}: Coordinate, radius: number) => ({
+  '$centerSphere': [[longitude, latitude], radius / EARTH_RADIUS_METERS]
+});
+
+export const getBoundingBoxGeometry = ({west, south, east, north}: BoundingBox) => ({
+  '$geometry': {
+    type: 'Polygon',
+    coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]]
+  }
+});
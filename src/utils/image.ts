@@ -0,0 +1,105 @@
+import { extname } from 'path';
+import { Jimp, JimpMime } from 'jimp';
+import { imageSize } from 'image-size';
+import { DEFAULT_STATIC_IMAGES } from '../app/application.constant.js';
+import { ImageVariant } from '../types/image-variant.enum.js';
+import { ImageVariants } from '../types/image-variants.type.js';
+import { isAbsoluteUrl } from './common.js';
+
+type ImageSize = {
+  width: number;
+  height: number;
+};
+
+export type ProcessedImage = {
+  variant: ImageVariant;
+  buffer: Buffer;
+};
+
+const IMAGE_VARIANT_SIZES: Record<ImageVariant, ImageSize> = {
+  [ImageVariant.thumbnail]: {width: 520, height: 400},
+  [ImageVariant.medium]: {width: 1280, height: 960},
+  [ImageVariant.original]: {width: 2560, height: 2560},
+};
+
+const VARIANTS_BY_SIZE = [ImageVariant.original, ImageVariant.medium, ImageVariant.thumbnail];
+
+const JPEG_QUALITY = 82;
+
+// Decoding needs width × height × 4 bytes (64 MB at the limit, enough for a 12 MP photo),
+// so the limit is checked on the header before any pixels are read.
+export const MAX_IMAGE_PIXELS = 16_000_000;
+
+export const getImageOutputType = (mimetype: string) =>
+  mimetype === JimpMime.jpeg
+    ? {mimetype: JimpMime.jpeg, extension: 'jpg'}
+    : {mimetype: JimpMime.png, extension: 'png'};
+
+export const getImageVariantName = (filename: string, variant: ImageVariant): string => {
+  if (variant === ImageVariant.original || DEFAULT_STATIC_IMAGES.includes(filename) || isAbsoluteUrl(filename)) {
+    return filename;
+  }
+
+  const extension = extname(filename);
+  return `${filename.slice(0, filename.length - extension.length)}-${variant}${extension}`;
+};
+
+export const getImageVariants = (filename: string): ImageVariants => ({
+  [ImageVariant.thumbnail]: getImageVariantName(filename, ImageVariant.thumbnail),
+  [ImageVariant.medium]: getImageVariantName(filename, ImageVariant.medium),
+  [ImageVariant.original]: getImageVariantName(filename, ImageVariant.original),
+});
+
+export const getImageVariantNames = (filename: string): string[] =>
+  Object.values(getImageVariants(filename));
+
+export const getImageDimensions = (buffer: Buffer): ImageSize | null => {
+  try {
+    const {width, height} = imageSize(buffer);
+    return {width, height};
+  } catch {
+    return null;
+  }
+};
+
+export const isImageSizeAllowed = (buffer: Buffer): boolean => {
+  const dimensions = getImageDimensions(buffer);
+  return dimensions !== null && dimensions.width * dimensions.height <= MAX_IMAGE_PIXELS;
+};
+
+export const processImage = async (buffer: Buffer, mimetype: string): Promise<ProcessedImage[]> => {
+  if (!isImageSizeAllowed(buffer)) {
+    throw new Error(`Image is unreadable or larger than ${MAX_IMAGE_PIXELS} pixels`);
+  }
+
+  const decoded = await Jimp.read(buffer);
+  const output = getImageOutputType(mimetype);
+  const images: ProcessedImage[] = [];
+
+  // Scaled down in place first, so the only copy ever made is no larger than the original variant.
+  const {width: maxWidth, height: maxHeight} = IMAGE_VARIANT_SIZES[ImageVariant.original];
+  if (decoded.width > maxWidth || decoded.height > maxHeight) {
+    decoded.scaleToFit({w: maxWidth, h: maxHeight});
+  }
+
+  // Rebuilt from raw pixels so that EXIF and other metadata never reach the encoded files.
+  const {width: sourceWidth, height: sourceHeight, data} = decoded.bitmap;
+  const image = Jimp.fromBitmap({width: sourceWidth, height: sourceHeight, data});
+
+  // From the largest variant to the smallest: each one is scaled from the previous one.
+  for (const variant of VARIANTS_BY_SIZE) {
+    const {width, height} = IMAGE_VARIANT_SIZES[variant];
+
+    if (image.width > width || image.height > height) {
+      image.scaleToFit({w: width, h: height});
+    }
+
+    const encoded = output.mimetype === JimpMime.jpeg
+      ? await image.getBuffer(JimpMime.jpeg, {quality: JPEG_QUALITY})
+      : await image.getBuffer(JimpMime.png);
+
+    images.push({variant, buffer: encoded});
+  }
+
+  return images;
+};
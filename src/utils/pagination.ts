@@ -0,0 +1,55 @@
+import { Document, FilterQuery, Types } from 'mongoose';
+import { Cursor } from '../types/cursor.type.js';
+import { Paginated } from '../types/paginated.type.js';
+import { SortType } from '../types/sort-type.enum.js';
+
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+// The cursor comes from the client: anything but a primitive value could smuggle query operators into the filter.
+const isCursorValue = (value: unknown): boolean =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+export const decodeCursor = (value: string): Cursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    return typeof cursor?.id === 'string' && Types.ObjectId.isValid(cursor.id) && isCursorValue(cursor.value)
+      ? {value: cursor.value, id: cursor.id}
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getCursorSort = (field: string, sortType: SortType): Record<string, SortType> => ({
+  [field]: sortType,
+  _id: sortType,
+});
+
+export const getCursorFilter = <T>(
+  field: string,
+  sortType: SortType,
+  {value, id}: Cursor | {value: unknown; id: Types.ObjectId}
+): FilterQuery<T> => {
+  const operator = sortType === SortType.Down ? '$lt' : '$gt';
+
+  return {
+    '$or': [
+      {[field]: {[operator]: value}},
+      {[field]: value, _id: {[operator]: id}},
+    ]
+  } as FilterQuery<T>;
+};
+
+export const createPage = <T extends Document>(documents: T[], limit: number, total: number, sortField: string): Paginated<T> => {
+  const items = documents.slice(0, limit);
+  const lastItem = items[items.length - 1];
+
+  return {
+    items,
+    total,
+    nextCursor: documents.length > limit && lastItem
+      ? encodeCursor({value: lastItem.get(sortField), id: lastItem.id})
+      : null,
+  };
+};
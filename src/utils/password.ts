@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { createSHA256 } from './common.js';
+
+const scrypt = promisify<crypto.BinaryLike, crypto.BinaryLike, number, crypto.ScryptOptions, Buffer>(crypto.scrypt);
+
+const PASSWORD_HASH_ALGORITHM = 'scrypt';
+const PASSWORD_HASH_SEPARATOR = '$';
+const PASSWORD_SALT_LENGTH = 16;
+const PASSWORD_KEY_LENGTH = 64;
+
+const PASSWORD_HASH_OPTIONS = {
+  N: 16384,
+  r: 8,
+  p: 1,
+};
+
+type PasswordHash = {
+  algorithm: string;
+  options: crypto.ScryptOptions;
+  salt: Buffer;
+  hash: Buffer;
+};
+
+const parsePasswordHash = (passwordHash: string): PasswordHash | null => {
+  const [algorithm, N, r, p, salt, hash] = passwordHash.split(PASSWORD_HASH_SEPARATOR);
+
+  if (algorithm !== PASSWORD_HASH_ALGORITHM || !salt || !hash) {
+    return null;
+  }
+
+  return {
+    algorithm,
+    options: {N: Number(N), r: Number(r), p: Number(p)},
+    salt: Buffer.from(salt, 'base64'),
+    hash: Buffer.from(hash, 'base64'),
+  };
+};
+
+export const createPasswordHash = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(PASSWORD_SALT_LENGTH);
+  const {N, r, p} = PASSWORD_HASH_OPTIONS;
+  const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH, PASSWORD_HASH_OPTIONS);
+
+  return [
+    PASSWORD_HASH_ALGORITHM,
+    N,
+    r,
+    p,
+    salt.toString('base64'),
+    hash.toString('base64'),
+  ].join(PASSWORD_HASH_SEPARATOR);
+};
+
+export const verifyPasswordHash = async (password: string, passwordHash: string, legacySalt: string): Promise<boolean> => {
+  const parsedHash = parsePasswordHash(passwordHash);
+
+  if (!parsedHash) {
+    return createSHA256(password, legacySalt) === passwordHash;
+  }
+
+  const {options, salt, hash} = parsedHash;
+  const candidate = await scrypt(password, salt, hash.length, options);
+
+  return crypto.timingSafeEqual(candidate, hash);
+};
+
+export const isPasswordHashOutdated = (passwordHash: string): boolean => {
+  const parsedHash = parsePasswordHash(passwordHash);
+
+  if (!parsedHash) {
+    return true;
+  }
+
+  const {N, r, p} = parsedHash.options;
+  return N !== PASSWORD_HASH_OPTIONS.N
+    || r !== PASSWORD_HASH_OPTIONS.r
+    || p !== PASSWORD_HASH_OPTIONS.p
+    || parsedHash.hash.length !== PASSWORD_KEY_LENGTH;
+};
@@ -0,0 +1,75 @@
+import { SearchLanguage } from '../types/search-language.enum.js';
+
+const CYRILLIC_PATTERN = /[а-яё]/gi;
+const LATIN_PATTERN = /[a-z]/gi;
+const MIN_STEM_LENGTH = 3;
+const STEM_SUFFIX_LENGTH = 2;
+const SNIPPET_CONTEXT_LENGTH = 60;
+const DEFAULT_SNIPPET_LENGTH = 160;
+const ELLIPSIS = '…';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&#39;',
+};
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, (symbol) => HTML_ENTITIES[symbol]);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const detectSearchLanguage = (text: string): SearchLanguage => {
+  const cyrillicCount = text.match(CYRILLIC_PATTERN)?.length ?? 0;
+  const latinCount = text.match(LATIN_PATTERN)?.length ?? 0;
+
+  return cyrillicCount > latinCount ? SearchLanguage.Russian : SearchLanguage.English;
+};
+
+/**
+ * Splits a `$text` search string into the words worth highlighting:
+ * negated terms are skipped and every word is cut down to a rough stem,
+ * so "квартиры" still highlights "квартира" the way Mongo stemming matched it.
+ */
+export const getSearchTerms = (search: string): string[] =>
+  search
+    .toLowerCase()
+    .split(/[\s"]+/)
+    .filter((term) => term && !term.startsWith('-'))
+    .map((term) => term.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter((term) => term.length > 0)
+    .map((term) => term.length > MIN_STEM_LENGTH
+      ? term.slice(0, Math.max(MIN_STEM_LENGTH, term.length - STEM_SUFFIX_LENGTH))
+      : term
+    );
+
+export const createHighlight = (text: string, terms: string[], maxLength = DEFAULT_SNIPPET_LENGTH): string | null => {
+  if (!text || terms.length === 0) {
+    return null;
+  }
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  const firstMatchIndex = text.search(pattern);
+
+  if (firstMatchIndex === -1) {
+    return null;
+  }
+
+  const start = text.length > maxLength ? Math.max(0, firstMatchIndex - SNIPPET_CONTEXT_LENGTH) : 0;
+  const end = Math.min(text.length, start + maxLength);
+  const snippet = text.slice(start, end);
+
+  let result = '';
+  let position = 0;
+
+  for (const match of snippet.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    result += `${escapeHtml(snippet.slice(position, index))}<mark>${escapeHtml(match[0])}</mark>`;
+    position = index + match[0].length;
+  }
+
+  result += escapeHtml(snippet.slice(position));
+
+  return `${start > 0 ? ELLIPSIS : ''}${result}${end < text.length ? ELLIPSIS : ''}`;
+};
@@ -0,0 +1,109 @@
+import { Request, RequestHandler, Response } from 'express';
+import multer from 'multer';
+import { nanoid } from 'nanoid';
+import { StatusCodes } from 'http-status-codes';
+import HttpError from '../common/errors/http-error.js';
+import ValidationError from '../common/errors/validation-error.js';
+import { ServiceError } from '../types/service-error.enum.js';
+import { StorageInterface } from '../common/storage/storage.interface.js';
+import { removeUploadedFile } from './file.js';
+import { getImageOutputType, getImageVariantName, isImageSizeAllowed, MAX_IMAGE_PIXELS, processImage } from './image.js';
+
+type ImageSignature = {
+  mimetype: string;
+  parts: Array<{offset: number; bytes: number[]}>;
+};
+
+// WebP is not accepted: Jimp cannot decode it in Node (its WebP codec loads WASM through fetch),
+// so such uploads could be neither resized into variants nor stripped of metadata.
+const IMAGE_SIGNATURES: ImageSignature[] = [
+  {mimetype: 'image/jpeg', parts: [{offset: 0, bytes: [0xFF, 0xD8, 0xFF]}]},
+  {mimetype: 'image/png', parts: [{offset: 0, bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]}]},
+  {mimetype: 'image/gif', parts: [{offset: 0, bytes: [0x47, 0x49, 0x46, 0x38]}]},
+];
+
+const ALLOWED_IMAGE_TYPES_MESSAGE = 'File must be a JPEG, PNG or GIF image';
+
+export const detectImageType = (buffer: Buffer): ImageSignature | undefined =>
+  IMAGE_SIGNATURES.find(({parts}) => parts.every(({offset, bytes}) =>
+    buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte)
+  ));
+
+export const runUploadHandler = (handler: RequestHandler, req: Request, res: Response): Promise<void> =>
+  new Promise((resolvePromise, rejectPromise) => {
+    handler(req, res, (error?: unknown) => error ? rejectPromise(error) : resolvePromise());
+  });
+
+export const transformUploadError = (error: unknown, maxFileSize: number, detail: string): unknown => {
+  if (!(error instanceof multer.MulterError)) {
+    return error;
+  }
+
+  if (error.code === 'LIMIT_FILE_SIZE') {
+    return new HttpError(
+      StatusCodes.REQUEST_TOO_LONG,
+      `File «${error.field}» exceeds the maximum size of ${maxFileSize} bytes.`,
+      detail,
+      ServiceError.ValidationError
+    );
+  }
+
+  return new HttpError(
+    StatusCodes.BAD_REQUEST,
+    error.field ? `${error.message}: «${error.field}».` : `${error.message}.`,
+    detail,
+    ServiceError.ValidationError
+  );
+};
+
+export const saveImageFiles = async (req: Request, storage: StorageInterface, fieldName: string, files: Express.Multer.File[]): Promise<void> => {
+  if (files.length === 0) {
+    throw new ValidationError(`Validation error: "${req.path}"`, [
+      {property: fieldName, value: '', messages: ['File is required']}
+    ]);
+  }
+
+  const invalidFiles = files.filter((file) => !detectImageType(file.buffer));
+  if (invalidFiles.length > 0) {
+    throw new ValidationError(`Validation error: "${req.path}"`, invalidFiles.map((file) => ({
+      property: fieldName,
+      value: file.originalname,
+      messages: [ALLOWED_IMAGE_TYPES_MESSAGE]
+    })));
+  }
+
+  const oversizedFiles = files.filter((file) => !isImageSizeAllowed(file.buffer));
+  if (oversizedFiles.length > 0) {
+    throw new ValidationError(`Validation error: "${req.path}"`, oversizedFiles.map((file) => ({
+      property: fieldName,
+      value: file.originalname,
+      messages: [`Image must be readable and contain at most ${MAX_IMAGE_PIXELS} pixels`]
+    })));
+  }
+
+  const savedFiles: string[] = [];
+
+  try {
+    for (const file of files) {
+      const {mimetype, extension} = getImageOutputType((detectImageType(file.buffer) as ImageSignature).mimetype);
+      const filename = `${nanoid()}.${extension}`;
+      const images = await processImage(file.buffer, mimetype)
+        .catch(() => {
+          throw new ValidationError(`Validation error: "${req.path}"`, [
+            {property: fieldName, value: file.originalname, messages: ['File is not a readable image']}
+          ]);
+        });
+
+      for (const {variant, buffer} of images) {
+        const variantName = getImageVariantName(filename, variant);
+        await storage.save(variantName, buffer, mimetype);
+        savedFiles.push(variantName);
+      }
+
+      Object.assign(file, {mimetype, filename});
+    }
+  } catch (error) {
+    await Promise.all(savedFiles.map((filename) => removeUploadedFile(storage, filename)));
+    throw error;
+  }
+};